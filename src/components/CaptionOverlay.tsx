@@ -0,0 +1,421 @@
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import type { CaptionFrameState, CaptionLifecycleCallbacks, CaptionOverlayProps, MediaClock, WordFrame } from '../types';
+import { formatCaptionAnnouncement } from '../utils';
+import { CONTINUOUS_WORD_STYLE_PROPERTIES, CaptionEngine, animationRegistry, getCharacterTransitionColor } from '../engine';
+import { useMediaClock } from '../hooks/useMediaClock';
+import { useCaptionFrame } from '../hooks/useCaptionFrame';
+import { useIsomorphicLayoutEffect } from '../hooks/useIsomorphicLayoutEffect';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { drawCaptionFrame } from '../renderers/canvasRenderer';
+import { GSAPAnimationManager } from '../managers/GSAPAnimationManager';
+
+// 글자 색상을 글자 span 에 적용하고 움직임은 animationManager 로 적용 (엔진 프레임 값 그대로, 재생 이력과 무관)
+// 발화된 글자 색상은 시간의 함수 (seek / 역방향 / 일시정지 중 프레임 이동도 연속 재생과 같은 상태)
+const applyCharacterFrames = (
+  wordElement: HTMLElement,
+  wordFrame: WordFrame,
+  adjustedTime: number,
+  animationManager: GSAPAnimationManager
+) => {
+  if (!wordFrame.characters) return;
+  wordFrame.characters.forEach((character, i) => {
+    const charElement = wordElement.children[i];
+    if (!(charElement instanceof HTMLElement)) return;
+    const color = character.pronounced
+      ? getCharacterTransitionColor(wordFrame.word, character.charIndex, adjustedTime)
+      : character.color;
+    if (charElement.style.color !== color) charElement.style.color = color;
+  });
+  animationManager.applyCharacterFrames(wordElement, wordFrame.characters);
+};
+
+const toCssProperty = (property: string) => property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+// DOM 렌더러의 연속 값 (단어 transform / 전환 중인 크기 / 색상, 글자 움직임 / 색상)을 리렌더링 없이 적용
+const applyWordFrames = (
+  frame: CaptionFrameState,
+  wordElements: Map<string, HTMLSpanElement>,
+  animationManager: GSAPAnimationManager
+) => {
+  frame.boxes.forEach(box => box.words.forEach(wordFrame => {
+    const element = wordElements.get(`${box.key}:${wordFrame.key}`);
+    if (!element) return;
+    CONTINUOUS_WORD_STYLE_PROPERTIES.forEach(property => {
+      const value = String(wordFrame.style[property] ?? '');
+      const cssProperty = toCssProperty(property);
+      if (element.style.getPropertyValue(cssProperty) !== value) element.style.setProperty(cssProperty, value);
+    });
+    applyCharacterFrames(element, wordFrame, frame.adjustedTime, animationManager);
+  }));
+};
+
+// wallclock 시계의 CSS 애니메이션 (떨림 키프레임 등)을 미디어 재생 속도 / 일시정지에 맞춤
+const syncCssAnimations = (wordElements: Map<string, HTMLSpanElement>, playbackRate: number, isPlaying: boolean) => {
+  wordElements.forEach(element => {
+    element.getAnimations?.({ subtree: true }).forEach(animation => {
+      if (animation.playbackRate !== playbackRate) animation.playbackRate = playbackRate;
+      if (isPlaying && animation.playState === 'paused') animation.play();
+      if (!isPlaying && animation.playState === 'running') animation.pause();
+    });
+  });
+};
+
+interface OverlayRect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+// 화면에는 보이지 않지만 스크린 리더는 읽는 영역
+const VISUALLY_HIDDEN_STYLE: React.CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  border: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap'
+};
+
+// SSR 환경에서는 HTMLElement가 없음
+const isHTMLElement = (value: unknown): value is HTMLElement =>
+  typeof HTMLElement !== 'undefined' && value instanceof HTMLElement;
+
+// 캡션 영역 위치 / 크기 추적 (ResizeObserver)
+// media가 요소면 그 요소의 offset 박스 (같은 offsetParent 안에 렌더링해야 함), 아니면 오버레이의 부모 크기
+const useOverlayRect = (clock: MediaClock | null, overlayRef: React.RefObject<HTMLDivElement | null>) => {
+  const [rect, setRect] = useState<OverlayRect>({ top: 0, left: 0, width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = isHTMLElement(clock) ? clock : null;
+    const target = element ?? overlayRef.current;
+    if (!target) return;
+
+    const measure = () => {
+      const next = element
+        ? { top: element.offsetTop, left: element.offsetLeft, width: element.offsetWidth, height: element.offsetHeight }
+        : { top: 0, left: 0, width: target.clientWidth, height: target.clientHeight };
+      setRect(prev =>
+        Math.abs(prev.width - next.width) > 1 || Math.abs(prev.height - next.height) > 1 ||
+        prev.top !== next.top || prev.left !== next.left
+          ? next
+          : prev
+      );
+    };
+
+    let resizeTimeout: number;
+    const resizeObserver = new ResizeObserver(() => {
+      // 리사이즈 이벤트 쓰로틀링 (60fps 제한)
+      clearTimeout(resizeTimeout);
+      resizeTimeout = window.setTimeout(measure, 16); // ~60fps
+    });
+
+    measure();
+    resizeObserver.observe(target);
+
+    return () => {
+      clearTimeout(resizeTimeout);
+      resizeObserver.disconnect();
+    };
+  }, [clock, overlayRef]);
+
+  return rect;
+};
+
+// 기존 비디오 요소 / MediaClock 위에 캡션만 렌더링하는 오버레이
+// HLS.js, Shaka, Video.js 등 커스텀 컨트롤 플레이어와 함께 사용
+export const CaptionOverlay: React.FC<CaptionOverlayProps> = ({
+  media,
+  timingSyncData,
+  width,
+  height,
+  syncOffset = 0,
+  speakers,
+  textMeasurer,
+  boxAllocation,
+  avoidRegions,
+  renderer = 'dom',
+  effectClock = 'media',
+  className,
+  announceCaptions = true,
+  speakerName,
+  preferences,
+  reducedMotion,
+  onEventEnter,
+  onEventExit,
+  onWordStart,
+  onWordEnd,
+  onSegmentChange
+}) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // 단어 요소 (연속 움직임을 리렌더링 없이 적용)
+  const wordElementsRef = useRef(new Map<string, HTMLSpanElement>());
+  // 글자 움직임 (애니메이션 플러그인 결과) 적용
+  const [animationManager] = useState(() => new GSAPAnimationManager());
+  const callbacksRef = useRef<CaptionLifecycleCallbacks>({});
+  // 렌더링 중 엔진이 보낸 이벤트 (커밋 이후 콜백 호출)
+  const pendingCallbacksRef = useRef<(() => void)[]>([]);
+
+  useEffect(() => {
+    callbacksRef.current = { onEventEnter, onEventExit, onWordStart, onWordEnd, onSegmentChange };
+  });
+
+  const { clock, timeStore, isPlaying, playbackRate } = useMediaClock(media);
+  const rect = useOverlayRect(clock, overlayRef);
+
+  // 타이밍 / 레이아웃 결정은 headless 엔진이 담당 (컴포넌트는 프레임 상태만 렌더링)
+  const engine = useMemo(() => {
+    const captionEngine = new CaptionEngine(timingSyncData);
+    const queue = (callback: () => void) => pendingCallbacksRef.current.push(callback);
+    captionEngine.on('eventEnter', payload => queue(() => callbacksRef.current.onEventEnter?.(payload)));
+    captionEngine.on('eventExit', payload => queue(() => callbacksRef.current.onEventExit?.(payload)));
+    captionEngine.on('wordStart', payload => queue(() => callbacksRef.current.onWordStart?.(payload)));
+    captionEngine.on('wordEnd', payload => queue(() => callbacksRef.current.onWordEnd?.(payload)));
+    captionEngine.on('segmentChange', payload => queue(() => callbacksRef.current.onSegmentChange?.(payload)));
+    return captionEngine;
+  }, [timingSyncData]);
+
+  // 웹폰트 로딩이 끝나면 글자 폭이 바뀌므로 세그먼트 재측정
+  const [fontsVersion, setFontsVersion] = useState(0);
+  useEffect(() => {
+    if (typeof document === 'undefined' || !document.fonts) return;
+    const fonts = document.fonts;
+    let active = true;
+    const handleLoadingDone = () => {
+      if (!active) return;
+      engine.invalidateMeasurements();
+      setFontsVersion(version => version + 1);
+    };
+    fonts.addEventListener('loadingdone', handleLoadingDone);
+    // 첫 측정 이후에 로딩이 끝난 경우
+    fonts.ready.then(handleLoadingDone);
+    return () => {
+      active = false;
+      fonts.removeEventListener('loadingdone', handleLoadingDone);
+    };
+  }, [engine]);
+
+  // 실제 사용할 크기 (고정 또는 측정값)
+  const actualSize = useMemo(
+    () => ({ width: width ?? rect.width, height: height ?? rect.height }),
+    [width, height, rect.width, rect.height]
+  );
+
+  // 움직임 줄이기: 시청자 설정 > reducedMotion prop > 시스템 설정
+  const prefersReducedMotion = usePrefersReducedMotion();
+  const effectiveReducedMotion = preferences?.reducedMotion ?? reducedMotion ?? prefersReducedMotion;
+
+  // 엔진 설정 반영 (렌더링 중 엔진을 바꾸지 않도록 프레임 계산 직전의 layout effect 에서)
+  useIsomorphicLayoutEffect(() => {
+    engine.setSyncOffset(syncOffset);
+    engine.setSpeakers(speakers);
+    engine.setTextMeasurer(textMeasurer);
+    engine.setBoxAllocation(boxAllocation);
+    engine.setAvoidRegions(avoidRegions);
+    engine.setPreferences({ ...preferences, reducedMotion: effectiveReducedMotion });
+    engine.setEffectClock(effectClock);
+  }, [engine, syncOffset, speakers, textMeasurer, boxAllocation, avoidRegions, preferences, effectiveReducedMotion, effectClock]);
+
+  // fontsVersion: 엔진 측정값이 폐기된 뒤, 나머지: 엔진 설정이 바뀐 뒤 일시정지 상태에서도 다시 계산
+  const settingsRevision = useMemo(
+    () => [fontsVersion, syncOffset, speakers, textMeasurer, boxAllocation, avoidRegions, preferences, effectiveReducedMotion, effectClock],
+    [fontsVersion, syncOffset, speakers, textMeasurer, boxAllocation, avoidRegions, preferences, effectiveReducedMotion, effectClock]
+  );
+
+  // 생명주기 콜백 전달 (렌더링 중 상위 컴포넌트 상태 변경 방지)
+  const flushPendingCallbacks = () => {
+    const pending = pendingCallbacksRef.current;
+    pendingCallbacksRef.current = [];
+    pending.forEach(callback => callback());
+  };
+
+  // canvas 렌더러: 단일 canvas 에 다시 그림 (devicePixelRatio 반영)
+  const drawCanvas = (target: CaptionFrameState) => {
+    const canvas = canvasRef.current;
+    if (renderer !== 'canvas' || !canvas) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    const canvasWidth = Math.round(target.viewport.width * pixelRatio);
+    const canvasHeight = Math.round(target.viewport.height * pixelRatio);
+    if (canvas.width !== canvasWidth) canvas.width = canvasWidth;
+    if (canvas.height !== canvasHeight) canvas.height = canvasHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    drawCaptionFrame(ctx, target);
+  };
+
+  // 현재 시간의 캡션 프레임 상태 (박스 / 단어 단계가 바뀔 때만 리렌더링)
+  // 그 사이의 시간 변경은 단어 transform (elevation) / 글자 웨이브 / 색상 전환 / canvas 를 직접 갱신
+  // 모두 프레임의 보정 시간만으로 정해지므로 seek / 역방향 / 재생 속도 / 일시정지 중 프레임 이동에도 연속 재생과 같은 상태
+  const frame = useCaptionFrame(engine, timeStore, actualSize, settingsRevision, latest => {
+    flushPendingCallbacks();
+    if (renderer === 'canvas') {
+      drawCanvas(latest);
+      return;
+    }
+    applyWordFrames(latest, wordElementsRef.current, animationManager);
+  });
+
+  useEffect(() => {
+    flushPendingCallbacks();
+    drawCanvas(frame);
+  });
+
+  // 리렌더링으로 새로 그린 단어 / 글자에 현재 프레임의 연속 값 적용
+  useEffect(() => {
+    if (renderer === 'dom') applyWordFrames(frame, wordElementsRef.current, animationManager);
+  }, [frame, renderer, animationManager]);
+
+  // wallclock 시계: 새로 시작된 CSS 애니메이션 / 재생 속도 / 일시정지 반영
+  useEffect(() => {
+    if (renderer === 'dom' && effectClock === 'wallclock') syncCssAnimations(wordElementsRef.current, playbackRate, isPlaying);
+  }, [frame, renderer, effectClock, playbackRate, isPlaying]);
+
+  // 화면에 표시 중인 문장 (스크린 리더용, 시작 시간 순)
+  const announcements = useMemo(
+    () => [...frame.boxes]
+      .sort((a, b) => a.event.pre_reading.start - b.event.pre_reading.start)
+      .map(({ event, speaker }) => ({
+        id: event.event_id,
+        // speakerName prop 이 없으면 화자 레지스트리의 표시 이름
+        text: formatCaptionAnnouncement(event, { speakerName: speakerName ?? (() => speaker.displayName) })
+      })),
+    [frame.boxes, speakerName]
+  );
+
+  const isElement = isHTMLElement(clock);
+
+  return (
+    <>
+      <style>{`
+        @keyframes trembling {
+          0%, 100% { transform: translate(0, 0); }
+          25% { transform: translate(2px, -1px); }
+          50% { transform: translate(-1px, 1px); }
+          75% { transform: translate(1px, -1px); }
+        }
+        @keyframes trembling-elevated {
+          0%, 100% { transform: translateY(var(--elevation-y)) scale(var(--elevation-scale)) translate(0, 0); }
+          25% { transform: translateY(var(--elevation-y)) scale(var(--elevation-scale)) translate(2px, -1px); }
+          50% { transform: translateY(var(--elevation-y)) scale(var(--elevation-scale)) translate(-1px, 1px); }
+          75% { transform: translateY(var(--elevation-y)) scale(var(--elevation-scale)) translate(1px, -1px); }
+        }
+        @keyframes trembling-loud {
+          0%, 100% { transform: translate(0, 0) scale(var(--scale, 1)); }
+          25% { transform: translate(var(--amp-x, 1px), 0) scale(var(--scale, 1)); }
+          50% { transform: translate(0, var(--amp-y, 0.5px)) scale(var(--scale, 1)); }
+          75% { transform: translate(calc(var(--amp-x, 1px) * -1), 0) scale(var(--scale, 1)); }
+        }
+        ${animationRegistry.getKeyframes()}
+      `}</style>
+      {/* Caption With Intention 오버레이 */}
+      <div
+        ref={overlayRef}
+        className={['caption-overlay', className].filter(Boolean).join(' ')}
+        style={{
+          position: 'absolute',
+          top: isElement ? rect.top : 0,
+          left: isElement ? rect.left : 0,
+          width: isElement ? rect.width : '100%',
+          height: isElement ? rect.height : '100%',
+          pointerEvents: 'none'
+        }}
+      >
+        {/* 스크린 리더 / 점자 디스플레이용 문장 (시각적으로 숨김) */}
+        {announceCaptions && (
+          <div className="caption-live-region" role="log" aria-live="polite" style={VISUALLY_HIDDEN_STYLE}>
+            {announcements.map(announcement => (
+              <p key={announcement.id}>{announcement.text}</p>
+            ))}
+          </div>
+        )}
+
+        {/* canvas 렌더러 또는 하단 작업 영역 - layout_settings 기반 (글자 단위 span은 접근성 트리에서 제외) */}
+        {renderer === 'canvas' ? (
+          <canvas
+            ref={canvasRef}
+            className="caption-canvas"
+            aria-hidden="true"
+            style={{ position: 'absolute', top: 0, left: 0, width: '100%', height: '100%' }}
+          />
+        ) : (
+          <div className="work-area" aria-hidden="true" style={frame.workAreaStyle as React.CSSProperties}>
+            {/* 개별 Caption Box 렌더링 - 엔진이 할당한 박스별 */}
+            {frame.boxes.map(box => (
+              <div
+                key={`caption-box-${box.key}`}
+                className={`caption-box line-${box.boxIndex} ${box.anchor}${box.overflow ? ' overflow' : ''}`}
+                style={box.style as React.CSSProperties}
+              >
+                {/* 화자 이름표 (레지스트리에 이름 / 아바타 / 아이콘이 있을 때) */}
+                {box.speaker.showLabel && (
+                  <span className="caption-speaker" style={box.speaker.labelStyle as React.CSSProperties}>
+                    {box.speaker.avatarUrl && (
+                      <img
+                        src={box.speaker.avatarUrl}
+                        alt=""
+                        style={{ height: '1.6em', width: '1.6em', borderRadius: '50%', objectFit: 'cover', border: `2px solid ${box.speaker.color}` }}
+                      />
+                    )}
+                    {box.speaker.icon && <span>{box.speaker.icon}</span>}
+                    <span>{box.speaker.displayName}</span>
+                  </span>
+                )}
+                <div
+                  key={`sentence-${box.event.event_id}`}
+                  className="caption-sentence"
+                  style={box.sentenceStyle as React.CSSProperties}
+                >
+                  {box.words.map((wordFrame, wordIndex) => {
+                    const wordElementKey = `${box.key}:${wordFrame.key}`;
+                    // 분리될 때 null 로 호출됨 (ref cleanup 반환은 React 19 만 지원)
+                    const wordRef = (element: HTMLSpanElement | null) => {
+                      if (element) wordElementsRef.current.set(wordElementKey, element);
+                      else wordElementsRef.current.delete(wordElementKey);
+                    };
+
+                    if (wordFrame.renderMode === 'word') {
+                      return (
+                        <span key={wordFrame.key} ref={wordRef} className="caption-word" style={wordFrame.style as React.CSSProperties}>
+                          {wordFrame.word.word}
+                        </span>
+                      );
+                    }
+
+                    // 글자별 bouncing 적용
+                    return (
+                      <span key={wordFrame.key} ref={wordRef} className="caption-word" style={wordFrame.style as React.CSSProperties}>
+                        {wordFrame.characters?.map(character => (
+                          // 발화된 글자의 움직임 / 색상 전환은 applyWordFrames 가 적용
+                          <span
+                            key={`char-${wordIndex}-${character.charIndex}`}
+                            id={`char-${wordIndex}-${character.charIndex}`}
+                            data-char-index={character.charIndex}
+                            style={{
+                              display: 'inline-block',
+                              color: character.color,
+                              verticalAlign: 'baseline',
+                              textDecoration: 'inherit' // inline-block 은 단어의 밑줄을 물려받지 않음
+                            }}
+                          >
+                            {character.char}
+                          </span>
+                        ))}
+                      </span>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default CaptionOverlay;
@@ -0,0 +1,141 @@
+import React, { useId, useState } from 'react';
+import type { CaptionSettingsMenuProps } from '../types';
+import { TEXT_SCALE_RANGE } from '../utils/preferences';
+
+const PANEL_STYLE: React.CSSProperties = {
+  position: 'absolute',
+  top: '100%',
+  right: 0,
+  marginTop: 4,
+  display: 'grid',
+  gridTemplateColumns: 'auto 1fr auto',
+  alignItems: 'center',
+  gap: '8px 12px',
+  minWidth: 280,
+  padding: 12,
+  borderRadius: 6,
+  background: 'rgba(20, 20, 20, 0.95)',
+  color: '#FFFFFF',
+  font: '14px sans-serif'
+};
+
+const BUTTON_STYLE: React.CSSProperties = {
+  padding: '4px 10px',
+  border: '1px solid rgba(255, 255, 255, 0.6)',
+  borderRadius: 4,
+  background: 'rgba(0, 0, 0, 0.6)',
+  color: '#FFFFFF',
+  font: '14px sans-serif',
+  cursor: 'pointer'
+};
+
+// 내장 캡션 설정 메뉴 (글자 크기 / 배경 / 고대비 / 움직임 세기 / 움직임 줄이기)
+export const CaptionSettingsMenu: React.FC<CaptionSettingsMenuProps> = ({
+  preferences,
+  onChange,
+  onReset,
+  defaultBackgroundOpacity = 90,
+  className,
+  style
+}) => {
+  const [open, setOpen] = useState(false);
+  const id = useId();
+  const field = (name: string) => `${id}-${name}`;
+  const backgroundOpacity = preferences.backgroundOpacity ?? defaultBackgroundOpacity;
+
+  return (
+    <div
+      className={['caption-settings', className].filter(Boolean).join(' ')}
+      style={{ position: 'relative', ...style } as React.CSSProperties}
+      onKeyDown={event => {
+        if (event.key === 'Escape') setOpen(false);
+      }}
+    >
+      <button
+        type="button"
+        style={BUTTON_STYLE}
+        aria-expanded={open}
+        aria-controls={field('panel')}
+        onClick={() => setOpen(value => !value)}
+      >
+        CC settings
+      </button>
+      {open && (
+        <div id={field('panel')} role="group" aria-label="Caption settings" style={PANEL_STYLE}>
+          <label htmlFor={field('text-scale')}>Text size</label>
+          <input
+            id={field('text-scale')}
+            type="range"
+            min={TEXT_SCALE_RANGE.min * 100}
+            max={TEXT_SCALE_RANGE.max * 100}
+            step={25}
+            value={Math.round(preferences.textScale * 100)}
+            onChange={event => onChange({ textScale: Number(event.target.value) / 100 })}
+          />
+          <output htmlFor={field('text-scale')}>{Math.round(preferences.textScale * 100)}%</output>
+
+          <label htmlFor={field('background-opacity')}>Background opacity</label>
+          <input
+            id={field('background-opacity')}
+            type="range"
+            min={0}
+            max={100}
+            step={5}
+            value={backgroundOpacity}
+            disabled={preferences.highContrast}
+            onChange={event => onChange({ backgroundOpacity: Number(event.target.value) })}
+          />
+          <output htmlFor={field('background-opacity')}>{backgroundOpacity}%</output>
+
+          <label htmlFor={field('background-color')}>Background color</label>
+          <input
+            id={field('background-color')}
+            type="color"
+            value={preferences.backgroundColor ?? '#000000'}
+            disabled={preferences.highContrast}
+            onChange={event => onChange({ backgroundColor: event.target.value })}
+          />
+          <span />
+
+          <label htmlFor={field('high-contrast')}>High contrast</label>
+          <input
+            id={field('high-contrast')}
+            type="checkbox"
+            checked={preferences.highContrast}
+            onChange={event => onChange({ highContrast: event.target.checked })}
+          />
+          <span />
+
+          <label htmlFor={field('effect-intensity')}>Effect intensity</label>
+          <input
+            id={field('effect-intensity')}
+            type="range"
+            min={0}
+            max={100}
+            step={10}
+            value={preferences.effectIntensity}
+            onChange={event => onChange({ effectIntensity: Number(event.target.value) })}
+          />
+          <output htmlFor={field('effect-intensity')}>{preferences.effectIntensity}%</output>
+
+          <label htmlFor={field('reduced-motion')}>Reduce motion</label>
+          <input
+            id={field('reduced-motion')}
+            type="checkbox"
+            checked={preferences.reducedMotion ?? false}
+            onChange={event => onChange({ reducedMotion: event.target.checked })}
+          />
+          <span />
+
+          {onReset && (
+            <button type="button" style={{ ...BUTTON_STYLE, gridColumn: '1 / -1' }} onClick={onReset}>
+              Reset to defaults
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CaptionSettingsMenu;
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { exportAss, formatAssTime, importAss, parseAssScript, parseAssTime } from './ass';
+import { createEvent, createTimingSyncData } from '../test/fixtures';
+import { parseTimingSyncData } from '../utils/validation';
+
+const createData = () => {
+  const first = createEvent('sync_001', [['Hello', 1, 1.3], ['brave', 1.3, 1.62], ['world', 1.8, 2.4]]);
+  first.active_speech_words[1].font_adjustments = { size_percent: 6, weight: 700, width: 110 };
+  const second = createEvent('sync_002', [['Bye', 3.5, 4]], { speaker_id: 'SPEAKER_01' });
+  second.active_speech_words[0].color_transition = { from_color: '&H00FFFFFF', to_color: '&H00FF00FF', duration_ms: 200 };
+  return createTimingSyncData([first, second]);
+};
+
+const exportedWeights = (weights: number[]) => {
+  const data = createTimingSyncData([
+    createEvent('sync_001', weights.map((_, i): [string, number, number] => [`w${i}`, 1 + i, 1.5 + i]))
+  ]);
+  data.sync_events[0].active_speech_words.forEach((word, i) => {
+    word.font_adjustments.weight = weights[i];
+  });
+  return importAss(exportAss(data)).sync_events[0].active_speech_words.map(word => word.font_adjustments.weight);
+};
+
+describe('ASS time', () => {
+  it('formats and parses centisecond timestamps', () => {
+    expect(formatAssTime(3725.456)).toBe('1:02:05.46');
+    expect(parseAssTime('1:02:05.46')).toBeCloseTo(3725.46, 5);
+    expect(parseAssTime(formatAssTime(0))).toBe(0);
+  });
+});
+
+describe('exportAss / importAss', () => {
+  it('round trips events, word timings, colours and font adjustments', () => {
+    const data = createData();
+    const imported = importAss(exportAss(data));
+    expect(parseTimingSyncData(imported).ok).toBe(true);
+
+    expect(imported.sync_events.map(event => event.sentence)).toEqual(['Hello brave world', 'Bye']);
+    expect(imported.sync_events.map(event => event.speaker_id)).toEqual(['SPEAKER_00', 'SPEAKER_01']);
+    imported.sync_events.forEach((event, eventIndex) => {
+      const source = data.sync_events[eventIndex];
+      expect(event.pre_reading.start).toBeCloseTo(source.pre_reading.start, 2);
+      expect(event.pre_reading.end).toBeCloseTo(source.pre_reading.end, 2);
+      event.active_speech_words.forEach((word, wordIndex) => {
+        const sourceWord = source.active_speech_words[wordIndex];
+        expect(word.word).toBe(sourceWord.word);
+        expect(word.start).toBeCloseTo(sourceWord.start, 2);
+        expect(word.end).toBeCloseTo(sourceWord.end, 2);
+        expect(word.color_transition.to_color).toBe(sourceWord.color_transition.to_color);
+        expect(word.font_adjustments.weight).toBe(sourceWord.font_adjustments.weight);
+        expect(word.font_adjustments.width).toBe(sourceWord.font_adjustments.width);
+        expect(word.font_adjustments.size_percent).toBeCloseTo(sourceWord.font_adjustments.size_percent, 1);
+      });
+    });
+  });
+
+  it('is stable when exported again', () => {
+    const script = exportAss(createData());
+    expect(exportAss(importAss(script))).toBe(script);
+  });
+
+  it('writes weights as \\b values rounded to the nearest 100 within 100-900', () => {
+    expect(exportedWeights([400, 700, 650, 349, 1000, 40])).toEqual([400, 700, 700, 300, 900, 100]);
+    const script = exportAss(createTimingSyncData([createEvent('sync_001', [['x', 1, 2]])]));
+    expect(script).toContain('\\b0');
+  });
+
+  it('imports karaoke dialogue written by other tools', () => {
+    const script = [
+      '[Script Info]',
+      'PlayResX: 1920',
+      'PlayResY: 1080',
+      '',
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+      'Style: Default,Arial,54,&H0000FFFF,&H00FFFFFF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,1,2,0,2,10,10,10,1',
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Default,Alice,0,0,0,,{\\kf30}Hi {\\b1\\kf50}there, friend'
+    ].join('\n');
+
+    expect(parseAssScript(script).dialogues).toHaveLength(1);
+    const [event] = importAss(script).sync_events;
+    expect(event.speaker_id).toBe('Alice');
+    expect(event.active_speech_words.map(word => [word.word, word.start, word.end])).toEqual([
+      ['Hi', 1, 1.3],
+      ['there,', 1.3, 1.8],
+      ['friend', 1.3, 1.8]
+    ]);
+    expect(event.active_speech_words[0].font_adjustments.weight).toBe(400);
+    expect(event.active_speech_words[1].font_adjustments.weight).toBe(700);
+    expect(event.active_speech_words[0].color_transition.to_color).toBe('&H0000FFFF');
+  });
+});
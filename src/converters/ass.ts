@@ -0,0 +1,838 @@
+import type { ElevationEffect, SoundCategory, SyncEvent, TimingSyncData, Word } from '../types';
+import { cssColorToAss } from '../utils';
+import { createDefaultLayoutSettings } from '../utils/layout';
+import { getMusicCueText, isMusicCue, parseMusicCueText } from '../utils/musicCue';
+import {
+  SOUND_CATEGORIES,
+  getSoundEventText,
+  getSoundIntensityFromRatio,
+  getSoundSizeRatio,
+  isSoundEvent,
+  isSpeechEvent
+} from '../utils/soundEvent';
+import { SINGING_SEMITONE_HEIGHT_PERCENT, getSingingOffset } from '../engine/motion';
+import { CURRENT_TIMING_SYNC_VERSION } from '../utils/validation';
+
+// Caption With Intention 파이프라인이 사용하는 오버레이 스타일 이름
+export const ASS_LOUD_STYLE = 'LoudVoice';
+export const ASS_WHISPER_STYLE = 'WhisperVoice';
+// singing 음높이 곡선 오버레이 / 배경 음악 표시 대사
+export const ASS_SINGING_STYLE = 'Singing';
+export const ASS_MUSIC_CUE_STYLE = 'MusicCue';
+// 효과음 대사 (Name = 종류, \an1 / \an3 = 방향, \fs = 세기)
+export const ASS_SOUND_STYLE = 'SoundEffect';
+
+const DEFAULT_PLAY_RES = { width: 1920, height: 1080 };
+const DEFAULT_COLOR_DURATION_MS = 200;
+
+export interface AssStyle {
+  name: string;
+  fontName: string;
+  fontSize: number;
+  primaryColour: string;
+  secondaryColour: string;
+  bold: boolean;
+  scaleX: number;
+  scaleY: number;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+}
+
+export interface AssImportOptions {
+  // Dialogue 시작보다 pre-reading을 얼마나 먼저 보여줄지 (ms)
+  preReadingLeadMs?: number;
+  // color_transition.duration_ms 기본값
+  colorTransitionMs?: number;
+}
+
+export interface AssExportOptions {
+  title?: string;
+  fontName?: string;
+  // 화자별 스타일 이름 (기본: Character_Character1, Character_Character2 ...)
+  speakerStyleName?: (speakerId: string, speakerIndex: number) => string;
+}
+
+interface AssDialogue {
+  layer: number;
+  start: number;
+  end: number;
+  style: string;
+  name: string;
+  text: string;
+}
+
+interface KaraokeSyllable {
+  text: string;
+  start: number;
+  end: number;
+  fontSize?: number;
+  bold?: number;
+  scaleX?: number;
+  primaryColour?: string;
+  secondaryColour?: string;
+}
+
+// "0:00:01.00" → 초
+export const parseAssTime = (value: string): number => {
+  const match = /^(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid ASS timestamp "${value}"`);
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+// "&H00FFFF00", "&HFFFF00&", "&H00FFFF00&" → "&H00FFFF00" (AABBGGRR)
+export const normalizeAssColor = (value: string): string => {
+  const hex = value.trim().replace(/^&H/i, '').replace(/&$/, '').toUpperCase();
+  return `&H${hex.padStart(8, '0').slice(-8)}`;
+};
+
+// ASS 불리언/굵기 값: -1 또는 1 = bold, 0 = regular, 100~900 = 가변 굵기
+const assBoldToWeight = (value: number): number => {
+  if (value === 0) return 400;
+  if (value === 1 || value === -1) return 700;
+  return value;
+};
+
+const splitFormatLine = (line: string): string[] =>
+  line.slice(line.indexOf(':') + 1).split(',').map(field => field.trim().toLowerCase());
+
+// 마지막 필드(Text)에는 쉼표가 포함될 수 있으므로 필드 수만큼만 분할
+const splitFields = (value: string, count: number): string[] => {
+  const fields: string[] = [];
+  let rest = value;
+  for (let i = 0; i < count - 1; i++) {
+    const comma = rest.indexOf(',');
+    if (comma === -1) break;
+    fields.push(rest.slice(0, comma).trim());
+    rest = rest.slice(comma + 1);
+  }
+  fields.push(rest);
+  return fields;
+};
+
+const parseStyle = (format: string[], value: string): AssStyle => {
+  const fields = splitFields(value, format.length);
+  const get = (key: string) => fields[format.indexOf(key)] ?? '';
+  const num = (key: string, fallback: number) => {
+    const parsed = Number(get(key));
+    return Number.isFinite(parsed) && get(key) !== '' ? parsed : fallback;
+  };
+  return {
+    name: get('name'),
+    fontName: get('fontname') || 'Roboto Flex',
+    fontSize: num('fontsize', 54),
+    primaryColour: normalizeAssColor(get('primarycolour') || '&H00FFFFFF'),
+    secondaryColour: normalizeAssColor(get('secondarycolour') || '&H00FFFFFF'),
+    bold: num('bold', 0) !== 0,
+    scaleX: num('scalex', 100),
+    scaleY: num('scaley', 100),
+    marginL: num('marginl', 0),
+    marginR: num('marginr', 0),
+    marginV: num('marginv', 0)
+  };
+};
+
+const parseDialogue = (format: string[], value: string): AssDialogue => {
+  const fields = splitFields(value, format.length);
+  const get = (key: string) => fields[format.indexOf(key)] ?? '';
+  return {
+    layer: Number(get('layer')) || 0,
+    start: parseAssTime(get('start')),
+    end: parseAssTime(get('end')),
+    style: get('style'),
+    name: get('name'),
+    text: get('text')
+  };
+};
+
+// 오버라이드 태그 제거 (\N, \h 는 공백으로)
+const stripAssTags = (text: string): string =>
+  text.replace(/\{[^}]*\}/g, '').replace(/\\[Nnh]/g, ' ').trim();
+
+// 대사 텍스트를 \k 계열 태그 기준 음절로 분할하고 음절별 스타일 오버라이드를 기록
+// 오버라이드는 뒤에 오는 텍스트에 적용 (이미 텍스트가 있는 음절은 그대로, 다음 음절부터)
+const parseKaraoke = (text: string, dialogueStart: number): { syllables: KaraokeSyllable[]; hasKaraoke: boolean } => {
+  const syllables: KaraokeSyllable[] = [];
+  const state: Omit<KaraokeSyllable, 'text' | 'start' | 'end'> = {};
+  let cursor = dialogueStart;
+  let hasKaraoke = false;
+  let current: KaraokeSyllable = { text: '', start: cursor, end: cursor };
+
+  const tokenPattern = /\{([^}]*)\}|([^{]+)/g;
+  let token: RegExpExecArray | null;
+  while ((token = tokenPattern.exec(text)) !== null) {
+    if (token[2] !== undefined) {
+      current.text += token[2].replace(/\\[Nnh]/g, ' ');
+      continue;
+    }
+
+    const tagPattern = /\\(kf|ko|k|K|fscx|fs|b|1c|2c|c)(&H[0-9A-Fa-f]+&?|-?\d+(?:\.\d+)?)?/g;
+    let tag: RegExpExecArray | null;
+    while ((tag = tagPattern.exec(token[1])) !== null) {
+      const [, name, rawValue] = tag;
+      if (rawValue === undefined) continue;
+      switch (name) {
+        case 'k':
+        case 'K':
+        case 'kf':
+        case 'ko': {
+          hasKaraoke = true;
+          syllables.push(current);
+          const duration = Number(rawValue) / 100;
+          current = { ...state, text: '', start: cursor, end: cursor + duration };
+          cursor += duration;
+          break;
+        }
+        case 'fs':
+          state.fontSize = Number(rawValue);
+          if (!current.text) current.fontSize = state.fontSize;
+          break;
+        case 'fscx':
+          state.scaleX = Number(rawValue);
+          if (!current.text) current.scaleX = state.scaleX;
+          break;
+        case 'b':
+          state.bold = Number(rawValue);
+          if (!current.text) current.bold = state.bold;
+          break;
+        case 'c':
+        case '1c':
+          state.primaryColour = normalizeAssColor(rawValue);
+          if (!current.text) current.primaryColour = state.primaryColour;
+          break;
+        case '2c':
+          state.secondaryColour = normalizeAssColor(rawValue);
+          if (!current.text) current.secondaryColour = state.secondaryColour;
+          break;
+      }
+    }
+  }
+  syllables.push(current);
+
+  return { syllables: syllables.filter(s => s.text.length > 0 || s.end > s.start), hasKaraoke };
+};
+
+interface ParsedWord {
+  word: string;
+  start: number;
+  end: number;
+  syllable: KaraokeSyllable;
+}
+
+// 음절을 공백 기준 단어로 병합 (한 단어가 여러 \k 음절로 나뉜 경우 포함)
+const syllablesToWords = (syllables: KaraokeSyllable[]): ParsedWord[] => {
+  const words: ParsedWord[] = [];
+  let current: ParsedWord | null = null;
+
+  for (const syllable of syllables) {
+    for (const piece of syllable.text.split(/(\s+)/)) {
+      if (piece === '') continue;
+      if (/^\s+$/.test(piece)) {
+        current = null;
+        continue;
+      }
+      if (current) {
+        current.word += piece;
+        current.end = syllable.end;
+      } else {
+        current = { word: piece, start: syllable.start, end: syllable.end, syllable };
+        words.push(current);
+      }
+    }
+  }
+  return words;
+};
+
+// 카라오케 태그가 없는 대사는 대사 길이 안에서 단어를 균등 분배
+const distributeWords = (text: string, start: number, end: number): ParsedWord[] => {
+  const tokens = stripAssTags(text).split(/\s+/).filter(Boolean);
+  const step = tokens.length > 0 ? (end - start) / tokens.length : 0;
+  return tokens.map((word, i) => ({
+    word,
+    start: start + step * i,
+    end: start + step * (i + 1),
+    syllable: { text: word, start, end }
+  }));
+};
+
+const parseMove = (text: string): { fromY: number; toY: number; durationMs: number } | null => {
+  const match = /\\move\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*(?:,\s*(\d+)\s*,\s*(\d+)\s*)?\)/.exec(text);
+  if (!match) return null;
+  const t1 = match[5] !== undefined ? Number(match[5]) : 0;
+  const t2 = match[6] !== undefined ? Number(match[6]) : 0;
+  return { fromY: Number(match[2]), toY: Number(match[4]), durationMs: Math.max(0, t2 - t1) };
+};
+
+const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }) =>
+  a.start < b.end && b.start < a.end;
+
+const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+
+// ASS 스크립트 텍스트를 파싱하여 스타일 / 대사 목록과 해상도를 반환
+export const parseAssScript = (text: string) => {
+  const playRes = { ...DEFAULT_PLAY_RES };
+  const styles = new Map<string, AssStyle>();
+  const dialogues: AssDialogue[] = [];
+  let section = '';
+  let styleFormat: string[] = [];
+  let eventFormat: string[] = [];
+
+  for (const rawLine of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) continue;
+
+    const sectionMatch = /^\[(.+)\]$/.exec(line);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      continue;
+    }
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (section === 'script info') {
+      if (key === 'playresx') playRes.width = Number(value) || playRes.width;
+      if (key === 'playresy') playRes.height = Number(value) || playRes.height;
+    } else if (section === 'v4+ styles' || section === 'v4 styles') {
+      if (key === 'format') styleFormat = splitFormatLine(line);
+      if (key === 'style' && styleFormat.length > 0) {
+        const style = parseStyle(styleFormat, value);
+        styles.set(style.name, style);
+      }
+    } else if (section === 'events') {
+      if (key === 'format') eventFormat = splitFormatLine(line);
+      if (key === 'dialogue' && eventFormat.length > 0) {
+        dialogues.push(parseDialogue(eventFormat, value));
+      }
+    }
+  }
+
+  if (eventFormat.length === 0) {
+    throw new Error('Invalid ASS script: missing [Events] Format line');
+  }
+
+  return { playRes, styles, dialogues };
+};
+
+// SoundEffect 대사 → sound 이벤트 (speaker_id 는 Name 의 종류, 세기는 스타일 크기 대비 \fs)
+const soundDialogueToEvent = (dialogue: AssDialogue, eventNumber: string, styleFontSize: number | undefined): SyncEvent => {
+  const text = stripAssTags(dialogue.text);
+  const alignment = /\\an(\d)/.exec(dialogue.text)?.[1];
+  const fontSize = Number(/\\fs([\d.]+)/.exec(dialogue.text)?.[1]);
+  const category = (SOUND_CATEGORIES as string[]).includes(dialogue.name) ? dialogue.name as SoundCategory : 'ambient';
+  return {
+    event_id: `ass_${eventNumber}`,
+    speaker_id: dialogue.name || dialogue.style,
+    segment_id: `seg_${eventNumber}`,
+    sentence: text,
+    pre_reading: { text, start: round(dialogue.start), end: round(dialogue.end), style: 'Preread', alpha: '&H19&' },
+    active_speech_words: [],
+    kind: 'sound',
+    sound: {
+      label: parseMusicCueText(text) ?? text,
+      category,
+      intensity: fontSize && styleFontSize ? round(getSoundIntensityFromRatio(fontSize / styleFontSize), 2) : 0.5,
+      ...(alignment === '1' && { direction: 'left' as const }),
+      ...(alignment === '3' && { direction: 'right' as const })
+    }
+  };
+};
+
+// ASS(Advanced SubStation Alpha) 스크립트 → TimingSyncData
+// - Character_* 등 일반 스타일 대사 → SyncEvent (\kf 음절 → 단어 타이밍)
+// - 스타일 색상 / \1c \2c → color_transition, \fs \fscx \b → font_adjustments
+// - LoudVoice / WhisperVoice 오버레이 레이어 → animation_type, \move → elevation_effects
+// - MusicCue / SoundEffect 대사 → music_cue / sound 이벤트
+export const importAss = (text: string, options: AssImportOptions = {}): TimingSyncData => {
+  const { playRes, styles, dialogues } = parseAssScript(text);
+  const preReadingLeadMs = options.preReadingLeadMs ?? 0;
+  const colorTransitionMs = options.colorTransitionMs ?? DEFAULT_COLOR_DURATION_MS;
+  const defaultStyle = styles.get('Default');
+
+  const isOverlay = (dialogue: AssDialogue) =>
+    dialogue.style === ASS_LOUD_STYLE || dialogue.style === ASS_WHISPER_STYLE || dialogue.style === ASS_SINGING_STYLE;
+  const mainDialogues = dialogues.filter(d => !isOverlay(d)).sort((a, b) => a.start - b.start || a.layer - b.layer);
+  const overlayDialogues = dialogues.filter(isOverlay);
+
+  const syncEvents: SyncEvent[] = [];
+  const eventRanges: { event: SyncEvent; start: number; end: number }[] = [];
+
+  mainDialogues.forEach((dialogue, index) => {
+    const eventNumber = String(index + 1).padStart(3, '0');
+    if (dialogue.style === ASS_MUSIC_CUE_STYLE) {
+      const text = stripAssTags(dialogue.text);
+      const description = parseMusicCueText(text);
+      syncEvents.push({
+        event_id: `ass_${eventNumber}`,
+        speaker_id: dialogue.name || dialogue.style,
+        segment_id: `seg_${eventNumber}`,
+        sentence: text,
+        pre_reading: { text, start: round(dialogue.start), end: round(dialogue.end), style: 'Preread', alpha: '&H19&' },
+        active_speech_words: [],
+        kind: 'music_cue',
+        music_cue: description ? { description } : {}
+      });
+      return;
+    }
+    if (dialogue.style === ASS_SOUND_STYLE) {
+      syncEvents.push(soundDialogueToEvent(dialogue, eventNumber, styles.get(ASS_SOUND_STYLE)?.fontSize));
+      return;
+    }
+
+    const style = styles.get(dialogue.style) ?? defaultStyle;
+    const { syllables, hasKaraoke } = parseKaraoke(dialogue.text, dialogue.start);
+    const parsedWords = hasKaraoke
+      ? syllablesToWords(syllables)
+      : distributeWords(dialogue.text, dialogue.start, dialogue.end);
+    if (parsedWords.length === 0) return;
+
+    const words: Word[] = parsedWords.map((parsed, wordIndex) => {
+      const { syllable } = parsed;
+      const fontSize = syllable.fontSize ?? style?.fontSize ?? 54;
+      const weight = syllable.bold !== undefined
+        ? assBoldToWeight(syllable.bold)
+        : style?.bold ? 700 : 400;
+      const start = round(parsed.start);
+      return {
+        word: parsed.word,
+        word_index: wordIndex,
+        start,
+        end: round(Math.min(parsed.end, dialogue.end)),
+        pronunciation_start: start,
+        color_transition: {
+          from_color: syllable.secondaryColour ?? style?.secondaryColour ?? '&H00FFFFFF',
+          to_color: syllable.primaryColour ?? style?.primaryColour ?? '&H00FFFFFF',
+          duration_ms: colorTransitionMs
+        },
+        font_adjustments: {
+          size_percent: round((fontSize / playRes.height) * 100, 4),
+          weight,
+          width: syllable.scaleX ?? style?.scaleX ?? 100
+        }
+      };
+    });
+
+    const sentence = words.map(w => w.word).join(' ');
+    const event: SyncEvent = {
+      event_id: `ass_${eventNumber}`,
+      speaker_id: dialogue.name || dialogue.style,
+      segment_id: `seg_${eventNumber}`,
+      sentence,
+      pre_reading: {
+        text: sentence,
+        start: round(Math.max(0, dialogue.start - preReadingLeadMs / 1000)),
+        end: round(dialogue.end),
+        style: 'Preread',
+        alpha: '&H19&'
+      },
+      active_speech_words: words
+    };
+    syncEvents.push(event);
+    eventRanges.push({ event, start: dialogue.start, end: dialogue.end });
+  });
+
+  // 오버레이 레이어를 같은 화자 / 같은 시간대의 단어에 매핑
+  const elevationEffects: ElevationEffect[] = [];
+  const elevationByEvent = new Map<string, ElevationEffect>();
+
+  // Singing 오버레이의 세로 위치 기준선 (exportAss 와 같이 PlayResY - MarginV)
+  const singingStyle = styles.get(ASS_SINGING_STYLE) ?? defaultStyle;
+  const singingBaselineY = playRes.height - (singingStyle?.marginV ?? 0);
+  const semitonePx = (SINGING_SEMITONE_HEIGHT_PERCENT / 100) * playRes.height;
+  const singingWords = new Set<Word>();
+
+  for (const overlay of overlayDialogues) {
+    const target = eventRanges.find(range =>
+      overlaps(range, overlay) && (!overlay.name || range.event.speaker_id === overlay.name)
+    )?.event;
+    if (!target) continue;
+
+    // Singing: 단어 구간 안의 \move 한 줄마다 음높이 곡선의 두 점 (반음 크기는 기본값으로 가정)
+    if (overlay.style === ASS_SINGING_STYLE) {
+      const overlayWord = stripAssTags(overlay.text);
+      const word = target.active_speech_words.find(w =>
+        w.word === overlayWord && overlaps(w, overlay) && (!w.animation_type || w.animation_type === 'singing')
+      ) ?? target.active_speech_words.find(w => w.word === overlayWord && !w.animation_type);
+      if (!word) continue;
+      word.animation_type = 'singing';
+      word.animation_config ??= {};
+      singingWords.add(word);
+      const move = parseMove(overlay.text);
+      if (!move) continue;
+      const contour = (word.pitch_contour ??= []);
+      const toSemitones = (y: number) => round((singingBaselineY - y) / semitonePx, 2);
+      const moveEnd = move.durationMs > 0 ? overlay.start + move.durationMs / 1000 : overlay.end;
+      contour.push({ time: round(overlay.start), semitones: toSemitones(move.fromY) });
+      contour.push({ time: round(moveEnd), semitones: toSemitones(move.toY) });
+      continue;
+    }
+
+    const overlayStyle = styles.get(overlay.style);
+    const overlayWords = stripAssTags(overlay.text).split(/\s+/).filter(Boolean);
+    const isLoud = overlay.style === ASS_LOUD_STYLE;
+    const alpha = overlayStyle ? parseInt(overlayStyle.primaryColour.slice(2, 4), 16) : 0;
+
+    for (const overlayWord of overlayWords) {
+      const word = target.active_speech_words.find(w => w.word === overlayWord && !w.animation_type);
+      if (!word) continue;
+
+      word.animation_type = isLoud ? 'loud' : 'whisper';
+      word.special_effects = { ...word.special_effects, [isLoud ? 'loud_voice' : 'whisper_voice']: true };
+      word.animation_config = {
+        ...word.animation_config,
+        ...(overlayStyle && {
+          font_size_percent: round((overlayStyle.fontSize / playRes.height) * 100, 4),
+          scale_percent: overlayStyle.scaleX
+        }),
+        ...(isLoud && overlayStyle?.bold && { font_weight: 700 }),
+        ...(!isLoud && alpha > 0 && { opacity: round(1 - alpha / 255, 2) })
+      };
+
+      const move = parseMove(overlay.text);
+      if (!move) continue;
+      let effect = elevationByEvent.get(target.event_id);
+      if (!effect) {
+        effect = {
+          effect_id: `elev_${String(elevationEffects.length + 1).padStart(3, '0')}`,
+          sentence: target.sentence,
+          start: round(overlay.start),
+          end: round(overlay.end),
+          speaker_id: target.speaker_id,
+          elevation_percent: round(((move.fromY - move.toY) / playRes.height) * 100, 2),
+          words: []
+        };
+        elevationByEvent.set(target.event_id, effect);
+        elevationEffects.push(effect);
+      }
+      effect.words.push({
+        word: overlayWord,
+        move_animation: { from_y: move.fromY, to_y: move.toY, duration_ms: move.durationMs }
+      });
+    }
+  }
+
+  // 이어지는 \move 의 겹치는 끝점 / 시작점 정리
+  singingWords.forEach(word => {
+    if (!word.pitch_contour) return;
+    word.pitch_contour = word.pitch_contour
+      .sort((a, b) => a.time - b.time)
+      .filter((point, i, points) => i === 0 || point.time !== points[i - 1].time);
+  });
+
+  const layoutSettings = createDefaultLayoutSettings(playRes);
+  if (defaultStyle) {
+    layoutSettings.work_area.safety_margins = {
+      left_percent: round(defaultStyle.marginL / playRes.width, 4),
+      right_percent: round(defaultStyle.marginR / playRes.width, 4),
+      bottom_percent: round(defaultStyle.marginV / playRes.height, 4)
+    };
+    if (layoutSettings.caption_box_style) {
+      layoutSettings.caption_box_style.baseline_font_size_percent = round((defaultStyle.fontSize / playRes.height) * 100, 4);
+    }
+  }
+
+  return {
+    version: CURRENT_TIMING_SYNC_VERSION,
+    created_at: new Date().toISOString(),
+    total_duration: round(Math.max(0, ...dialogues.map(d => d.end))),
+    sync_precision_ms: 10, // ASS 타임스탬프는 센티초 단위
+    layout_settings: layoutSettings,
+    sync_events: syncEvents,
+    ...(elevationEffects.length > 0 && { elevation_effects: elevationEffects }),
+    global_timing_adjustments: {
+      pre_reading_lead_ms: preReadingLeadMs,
+      color_transition_overlap_ms: 0,
+      animation_buffer_ms: 0
+    }
+  };
+};
+
+const STYLE_FORMAT = 'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding';
+const EVENT_FORMAT = 'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text';
+// 파이프라인 관례: 오버레이 레이어는 100부터 단어마다 1씩 증가
+const OVERLAY_BASE_LAYER = 100;
+
+const toCentiseconds = (seconds: number) => Math.max(0, Math.round(seconds * 100));
+
+// 초 → "0:00:01.00"
+export const formatAssTime = (seconds: number): string => {
+  const cs = toCentiseconds(seconds);
+  const hours = Math.floor(cs / 360000);
+  const minutes = Math.floor((cs % 360000) / 6000);
+  const secs = Math.floor((cs % 6000) / 100);
+  const centis = cs % 100;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(centis).padStart(2, '0')}`;
+};
+
+// 데이터의 색상은 ASS(&HAABBGGRR) 또는 CSS(#RRGGBB) 형태일 수 있음
+const toAssColor = (color: string): string =>
+  /^&H/i.test(color.trim()) ? normalizeAssColor(color) : cssColorToAss(color);
+
+const formatNumber = (value: number) => String(Number(value.toFixed(2)));
+
+// \b 굵기는 100 단위 (100~900)만 유효하므로 가장 가까운 값으로 반올림 (400 / 700 은 0 / 1)
+const weightToAssBold = (weight: number): string => {
+  const rounded = Math.min(900, Math.max(100, Math.round(weight / 100) * 100));
+  if (rounded === 400) return '0';
+  if (rounded === 700) return '1';
+  return String(rounded);
+};
+
+const styleLine = (fields: {
+  name: string;
+  fontName: string;
+  fontSize: number;
+  primary: string;
+  secondary: string;
+  bold: boolean;
+  italic?: boolean;
+  scale: number;
+  outline: number;
+  margins: { left: number; right: number; vertical: number };
+}) => [
+  `Style: ${fields.name}`,
+  fields.fontName,
+  formatNumber(fields.fontSize),
+  fields.primary,
+  fields.secondary,
+  '&H00000000',
+  '&H00000000',
+  fields.bold ? 1 : 0,
+  fields.italic ? 1 : 0,
+  0, 0,
+  fields.scale,
+  fields.scale,
+  0, 0, 1,
+  fields.outline,
+  fields.outline,
+  2,
+  fields.margins.left,
+  fields.margins.right,
+  fields.margins.vertical,
+  1
+].join(',');
+
+const dialogueLine = (layer: number, start: number, end: number, style: string, name: string, text: string) =>
+  `Dialogue: ${layer},${formatAssTime(start)},${formatAssTime(end)},${style},${name},0,0,0,,${text}`;
+
+// 단어의 폰트 조정값 → \fs \b \fscx 오버라이드
+const fontOverride = (word: Word, playResY: number) =>
+  `\\fs${formatNumber((word.font_adjustments.size_percent / 100) * playResY)}` +
+  `\\b${weightToAssBold(word.font_adjustments.weight)}` +
+  `\\fscx${formatNumber(word.font_adjustments.width)}`;
+
+// SyncEvent → 카라오케 대사 텍스트
+// 타이밍은 절대 시간 기준 센티초로 계산하여 반올림 오차가 누적되지 않도록 함
+const karaokeText = (event: SyncEvent, playResY: number, primary: string, secondary: string): string => {
+  const words = event.active_speech_words;
+  let text = '';
+  let cursor = toCentiseconds(event.pre_reading.start);
+  let previousFont = '';
+  let previousItalic = false;
+
+  words.forEach((word, i) => {
+    const wordStart = Math.max(cursor, toCentiseconds(word.start));
+    const wordEnd = Math.max(wordStart, toCentiseconds(word.end));
+
+    const overrides: string[] = [];
+    const font = fontOverride(word, playResY);
+    if (font !== previousFont) {
+      overrides.push(font);
+      previousFont = font;
+    }
+    // 노래 가사는 기울임
+    const italic = word.animation_type === 'singing';
+    if (italic !== previousItalic) {
+      overrides.push(`\\i${italic ? 1 : 0}`);
+      previousItalic = italic;
+    }
+    const toColor = toAssColor(word.color_transition.to_color);
+    const fromColor = toAssColor(word.color_transition.from_color);
+    if (toColor !== primary) overrides.push(`\\1c${toColor}&`);
+    if (fromColor !== secondary) overrides.push(`\\2c${fromColor}&`);
+
+    // pre-reading 구간(첫 단어 이전)은 빈 음절로 표현
+    if (i === 0 && wordStart > cursor) text += `{\\k${wordStart - cursor}}`;
+    if (overrides.length > 0) text += `{${overrides.join('')}}`;
+    text += `{\\kf${wordEnd - wordStart}}${word.word}`;
+
+    // 단어 사이 간격 음절 (간격이 없어도 파이프라인 관례대로 공백 음절 유지)
+    const next = words[i + 1];
+    if (next) {
+      const gap = Math.max(0, toCentiseconds(next.start) - wordEnd);
+      text += `{\\k${gap}} `;
+    }
+    cursor = wordEnd + (next ? Math.max(0, toCentiseconds(next.start) - wordEnd) : 0);
+  });
+
+  return text;
+};
+
+// singing 단어 → 음높이 곡선을 따라가는 오버레이 대사 (곡선 점 사이마다 \move 한 줄, 곡선이 없으면 이동 없이 한 줄)
+// 세로 위치는 Singing 스타일 기준선 (PlayResY - MarginV) 에서 getSingingOffset 만큼
+const singingOverlays = (word: Word, playResY: number, baselineY: number): { start: number; end: number; text: string }[] => {
+  if (!word.pitch_contour?.length) return [{ start: word.start, end: word.end, text: word.word }];
+
+  const innerTimes = word.pitch_contour.map(point => point.time).filter(time => time > word.start && time < word.end);
+  const times = [word.start, ...innerTimes, word.end];
+  const toY = (time: number) => formatNumber(baselineY + getSingingOffset(word, time, playResY));
+  return times.slice(0, -1).map((start, i) => {
+    const end = times[i + 1];
+    return {
+      start,
+      end,
+      text: `{\\move(0,${toY(start)},0,${toY(end)},0,${Math.round((end - start) * 1000)})}${word.word}`
+    };
+  });
+};
+
+// 효과음 대사 텍스트: 방향은 \an1 / \an3, 세기는 \fs (createSoundEventWords 와 같은 크기 비율)
+const soundText = (event: SyncEvent, baseFontSize: number): string => {
+  const alignment = event.sound?.direction === 'left' ? '\\an1' : event.sound?.direction === 'right' ? '\\an3' : '';
+  const fontSize = baseFontSize * getSoundSizeRatio(event.sound?.intensity ?? 0.5);
+  return `{${alignment}\\fs${formatNumber(fontSize)}}${getSoundEventText(event)}`;
+};
+
+// TimingSyncData → ASS 스크립트 (captions_full.ass 와 같은 스타일 관례)
+// - 화자별 Character_* 스타일, 단어별 \kf 카라오케
+// - loud / whisper 단어는 LoudVoice / WhisperVoice 오버레이 레이어 (elevation_effects → \move)
+// - singing 단어는 기울임 + Singing 오버레이 (음높이 곡선 → \move), music_cue 이벤트는 MusicCue 대사
+// - sound 이벤트는 SoundEffect 대사
+export const exportAss = (data: TimingSyncData, options: AssExportOptions = {}): string => {
+  const layout = data.layout_settings;
+  const playRes = layout?.reference_resolution ?? DEFAULT_PLAY_RES;
+  const fontName = options.fontName ?? 'Roboto Flex';
+  const speakerStyleName = options.speakerStyleName ?? ((_speakerId: string, index: number) => `Character_Character${index + 1}`);
+  const margins = {
+    left: Math.round((layout?.work_area.safety_margins.left_percent ?? 0.05) * playRes.width),
+    right: Math.round((layout?.work_area.safety_margins.right_percent ?? 0.05) * playRes.width),
+    vertical: Math.round((layout?.work_area.safety_margins.bottom_percent ?? 0.02) * playRes.height)
+  };
+  const baseFontSize = ((layout?.caption_box_style?.baseline_font_size_percent ?? 5) / 100) * playRes.height;
+
+  // 화자별 스타일: 화자 레지스트리 색상, 없으면 첫 단어의 색상을 스타일 색상으로 사용
+  const speakerStyles = new Map<string, { name: string; primary: string; secondary: string }>();
+  for (const event of data.sync_events) {
+    if (speakerStyles.has(event.speaker_id) || !isSpeechEvent(event)) continue;
+    const firstWord = event.active_speech_words[0];
+    const speakerColor = data.speakers?.[event.speaker_id]?.colors?.text;
+    speakerStyles.set(event.speaker_id, {
+      name: speakerStyleName(event.speaker_id, speakerStyles.size),
+      primary: speakerColor
+        ? toAssColor(speakerColor)
+        : firstWord ? toAssColor(firstWord.color_transition.to_color) : '&H00FFFFFF',
+      secondary: firstWord ? toAssColor(firstWord.color_transition.from_color) : '&H00FFFFFF'
+    });
+  }
+
+  const allWords = data.sync_events.flatMap(event => event.active_speech_words);
+  const overlaySize = (type: 'loud' | 'whisper', fallback: number) => {
+    const sizes = allWords
+      .filter(word => word.animation_type === type && word.animation_config?.font_size_percent)
+      .map(word => ((word.animation_config?.font_size_percent ?? 0) / 100) * playRes.height);
+    return sizes.length > 0 ? Math.max(...sizes) : fallback;
+  };
+
+  const styles = [
+    styleLine({ name: 'Default', fontName, fontSize: baseFontSize, primary: '&H00FFFFFF', secondary: '&H00FFFFFF', bold: false, scale: 100, outline: 2, margins }),
+    ...[...speakerStyles.values()].map(style =>
+      styleLine({ name: style.name, fontName, fontSize: baseFontSize, primary: style.primary, secondary: style.secondary, bold: false, scale: 100, outline: 2, margins })
+    ),
+    styleLine({ name: ASS_LOUD_STYLE, fontName, fontSize: overlaySize('loud', 130), primary: '&H00FFFFFF', secondary: '&H00FFFFFF', bold: true, scale: 120, outline: 3, margins }),
+    styleLine({ name: ASS_WHISPER_STYLE, fontName, fontSize: overlaySize('whisper', 32), primary: '&H40FFFFFF', secondary: '&H40FFFFFF', bold: false, scale: 90, outline: 1, margins })
+  ];
+  // Singing / MusicCue / SoundEffect 는 사용하는 데이터에만 추가
+  if (allWords.some(word => word.animation_type === 'singing')) {
+    styles.push(styleLine({ name: ASS_SINGING_STYLE, fontName, fontSize: baseFontSize, primary: '&H00FFFFFF', secondary: '&H00FFFFFF', bold: false, italic: true, scale: 100, outline: 2, margins }));
+  }
+  if (data.sync_events.some(isMusicCue)) {
+    styles.push(styleLine({ name: ASS_MUSIC_CUE_STYLE, fontName, fontSize: baseFontSize, primary: '&H00FFFFFF', secondary: '&H00FFFFFF', bold: false, italic: true, scale: 100, outline: 2, margins }));
+  }
+  if (data.sync_events.some(isSoundEvent)) {
+    styles.push(styleLine({ name: ASS_SOUND_STYLE, fontName, fontSize: baseFontSize, primary: '&H00FFFFFF', secondary: '&H00FFFFFF', bold: false, scale: 100, outline: 2, margins }));
+  }
+
+  const events: string[] = [];
+  for (const event of data.sync_events) {
+    if (isMusicCue(event)) {
+      events.push(dialogueLine(0, event.pre_reading.start, event.pre_reading.end, ASS_MUSIC_CUE_STYLE, event.speaker_id, getMusicCueText(event)));
+      continue;
+    }
+    if (isSoundEvent(event)) {
+      events.push(dialogueLine(0, event.pre_reading.start, event.pre_reading.end, ASS_SOUND_STYLE, event.sound?.category ?? '', soundText(event, baseFontSize)));
+      continue;
+    }
+    if (event.active_speech_words.length === 0) continue;
+    const style = speakerStyles.get(event.speaker_id);
+    if (!style) continue;
+
+    events.push(dialogueLine(
+      0,
+      event.pre_reading.start,
+      event.pre_reading.end,
+      style.name,
+      event.speaker_id,
+      karaokeText(event, playRes.height, style.primary, style.secondary)
+    ));
+
+    // 음성 특성 오버레이 레이어
+    const elevation = data.elevation_effects?.find(effect =>
+      effect.speaker_id === event.speaker_id &&
+      effect.start < event.pre_reading.end && event.pre_reading.start < effect.end
+    );
+    const usedElevationWords = new Set<number>();
+    let layer = OVERLAY_BASE_LAYER;
+
+    for (const word of event.active_speech_words) {
+      if (word.animation_type === 'singing') {
+        singingOverlays(word, playRes.height, playRes.height - margins.vertical).forEach(overlay => {
+          events.push(dialogueLine(layer++, overlay.start, overlay.end, ASS_SINGING_STYLE, event.speaker_id, overlay.text));
+        });
+        continue;
+      }
+      const isLoud = word.animation_type === 'loud' || (!word.animation_type && word.special_effects?.loud_voice);
+      const isWhisper = word.animation_type === 'whisper' || (!word.animation_type && word.special_effects?.whisper_voice);
+      if (!isLoud && !isWhisper) continue;
+
+      let move = '';
+      const elevationIndex = elevation?.words.findIndex((w, i) => w.word === word.word && !usedElevationWords.has(i)) ?? -1;
+      if (elevation && elevationIndex !== -1) {
+        usedElevationWords.add(elevationIndex);
+        const { from_y, to_y, duration_ms } = elevation.words[elevationIndex].move_animation;
+        move = `{\\move(0,${formatNumber(from_y)},0,${formatNumber(to_y)},0,${Math.round(duration_ms)})}`;
+      }
+
+      events.push(dialogueLine(
+        layer++,
+        elevation && elevationIndex !== -1 ? elevation.start : event.pre_reading.start,
+        elevation && elevationIndex !== -1 ? elevation.end : event.pre_reading.end,
+        isLoud ? ASS_LOUD_STYLE : ASS_WHISPER_STYLE,
+        event.speaker_id,
+        `${move}${word.word}`
+      ));
+    }
+  }
+
+  return [
+    '[Script Info]',
+    `Title: ${options.title ?? 'Caption With Intention Generated Subtitles'}`,
+    'ScriptType: v4.00+',
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    'YCbCr Matrix: TV.709',
+    `PlayResX: ${playRes.width}`,
+    `PlayResY: ${playRes.height}`,
+    'OriginalScript: Caption With Intention Pipeline',
+    '',
+    '[V4+ Styles]',
+    STYLE_FORMAT,
+    ...styles,
+    '',
+    '[Events]',
+    EVENT_FORMAT,
+    ...events,
+    ''
+  ].join('\n');
+};
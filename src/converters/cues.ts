@@ -0,0 +1,164 @@
+import type { SyncEvent, TimingSyncData, Word } from '../types';
+import { createDefaultLayoutSettings } from '../utils/layout';
+import { getMusicCueText, isMusicCue } from '../utils/musicCue';
+import { getSoundEventText, isSoundEvent } from '../utils/soundEvent';
+import { CURRENT_TIMING_SYNC_VERSION } from '../utils/validation';
+
+// README의 6색 화자 시스템 (노랑, 파랑, 빨강, 주황, 녹색, 보라) - ASS(&HAABBGGRR) 형식
+export const DEFAULT_SPEAKER_PALETTE = [
+  '&H0000FFFF',
+  '&H00FF8000',
+  '&H000000FF',
+  '&H0000A5FF',
+  '&H0000FF00',
+  '&H00FF00A0'
+];
+
+export const DEFAULT_SPEAKER_ID = 'SPEAKER_00';
+
+// SRT / WebVTT 큐 하나 (단어 타이밍은 선택)
+export interface TextCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+  words?: { word: string; start: number; end: number }[];
+}
+
+export interface CueImportOptions {
+  // 큐 시작보다 pre-reading을 얼마나 먼저 보여줄지 (ms)
+  preReadingLeadMs?: number;
+  // 화자별 강조 색상 (ASS 또는 CSS 색상). 없으면 DEFAULT_SPEAKER_PALETTE 순서대로 할당
+  speakerColors?: Record<string, string>;
+  // 같은 시간대의 다른 큐에 포함된 단어만 가진 큐 제거 (파이프라인 SRT의 오버레이 단어 큐)
+  dropContainedCues?: boolean;
+}
+
+const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+
+// 단어 타이밍이 없으면 큐 구간 안에서 균등 분배
+const distributeCueWords = (cue: TextCue) => {
+  const tokens = cue.text.split(/\s+/).filter(Boolean);
+  const step = tokens.length > 0 ? (cue.end - cue.start) / tokens.length : 0;
+  return tokens.map((word, i) => ({
+    word,
+    start: cue.start + step * i,
+    end: cue.start + step * (i + 1)
+  }));
+};
+
+const isContainedCue = (cue: TextCue, cues: TextCue[]) => {
+  const tokens = cue.text.split(/\s+/).filter(Boolean);
+  return cues.some(other => {
+    if (other === cue || other.start !== cue.start || other.end !== cue.end) return false;
+    const otherTokens = other.text.split(/\s+/).filter(Boolean);
+    return otherTokens.length > tokens.length && tokens.every(token => otherTokens.includes(token));
+  });
+};
+
+// 큐 목록 → TimingSyncData (기본 color_transition / font_adjustments 할당)
+export const cuesToTimingSyncData = (cues: TextCue[], options: CueImportOptions = {}): TimingSyncData => {
+  const preReadingLeadMs = options.preReadingLeadMs ?? 0;
+  const dropContained = options.dropContainedCues ?? true;
+  const speakerColors = new Map<string, string>(Object.entries(options.speakerColors ?? {}));
+  const colorFor = (speakerId: string) => {
+    if (!speakerColors.has(speakerId)) {
+      speakerColors.set(speakerId, DEFAULT_SPEAKER_PALETTE[speakerColors.size % DEFAULT_SPEAKER_PALETTE.length]);
+    }
+    return speakerColors.get(speakerId) as string;
+  };
+
+  const usableCues = cues
+    .filter(cue => cue.text.trim().length > 0)
+    .filter((cue, _i, all) => !dropContained || !isContainedCue(cue, all))
+    .sort((a, b) => a.start - b.start);
+
+  const syncEvents: SyncEvent[] = usableCues.map((cue, index) => {
+    const speakerId = cue.speaker || DEFAULT_SPEAKER_ID;
+    const toColor = colorFor(speakerId);
+    const cueWords = cue.words && cue.words.length > 0 ? cue.words : distributeCueWords(cue);
+
+    const words: Word[] = cueWords.map((cueWord, wordIndex) => ({
+      word: cueWord.word,
+      word_index: wordIndex,
+      start: round(cueWord.start),
+      end: round(cueWord.end),
+      pronunciation_start: round(cueWord.start),
+      color_transition: {
+        from_color: '&H00FFFFFF',
+        to_color: toColor,
+        duration_ms: 200
+      },
+      font_adjustments: {
+        size_percent: 5,
+        weight: 400,
+        width: 100
+      }
+    }));
+
+    const eventNumber = String(index + 1).padStart(3, '0');
+    const sentence = words.map(w => w.word).join(' ');
+    return {
+      event_id: `cue_${eventNumber}`,
+      speaker_id: speakerId,
+      segment_id: `seg_${eventNumber}`,
+      sentence,
+      pre_reading: {
+        text: sentence,
+        start: round(Math.max(0, cue.start - preReadingLeadMs / 1000)),
+        end: round(cue.end),
+        style: 'Preread',
+        alpha: '&H19&'
+      },
+      active_speech_words: words
+    };
+  });
+
+  return {
+    version: CURRENT_TIMING_SYNC_VERSION,
+    created_at: new Date().toISOString(),
+    total_duration: round(Math.max(0, ...usableCues.map(cue => cue.end))),
+    sync_precision_ms: 1,
+    layout_settings: createDefaultLayoutSettings(),
+    sync_events: syncEvents,
+    global_timing_adjustments: {
+      pre_reading_lead_ms: preReadingLeadMs,
+      color_transition_overlap_ms: 0,
+      animation_buffer_ms: 0
+    }
+  };
+};
+
+// SyncEvent → 큐 (화면 표시 구간 = pre-reading 구간, 음악 표시는 화자 없이 "♪ [soft piano] ♪", 효과음은 "[door slams]")
+export const syncEventToCue = (event: SyncEvent): TextCue => {
+  const { start, end } = event.pre_reading;
+  if (isMusicCue(event)) return { start, end, text: getMusicCueText(event) };
+  if (isSoundEvent(event)) return { start, end, text: getSoundEventText(event) };
+  return {
+    start,
+    end,
+    text: event.active_speech_words.length > 0
+      ? event.active_speech_words.map(word => word.word).join(' ')
+      : event.sentence,
+    speaker: event.speaker_id,
+    words: event.active_speech_words.map(word => ({ word: word.word, start: word.start, end: word.end }))
+  };
+};
+
+// 초 → "00:00:01.200" (separator: SRT는 ',', WebVTT는 '.')
+export const formatCueTime = (seconds: number, separator: ',' | '.'): string => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(ms / 3600000);
+  const minutes = Math.floor((ms % 3600000) / 60000);
+  const secs = Math.floor((ms % 60000) / 1000);
+  const millis = ms % 1000;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}${separator}${String(millis).padStart(3, '0')}`;
+};
+
+// "0:00:01,000", "00:01.200" → 초 (시간 단위 생략 허용)
+export const parseCueTime = (value: string): number => {
+  const match = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})[.,](\d{1,3})$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid cue timestamp "${value}"`);
+  const [, hours = '0', minutes, secs, millis] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(secs) + Number(millis.padEnd(3, '0')) / 1000;
+};
@@ -0,0 +1,20 @@
+// 자막 포맷 변환기 (ASS / SRT / WebVTT ↔ TimingSyncData)
+export {
+  importAss,
+  exportAss,
+  parseAssScript,
+  parseAssTime,
+  formatAssTime,
+  normalizeAssColor,
+  ASS_LOUD_STYLE,
+  ASS_WHISPER_STYLE,
+  ASS_SINGING_STYLE,
+  ASS_MUSIC_CUE_STYLE,
+  ASS_SOUND_STYLE
+} from './ass';
+export type { AssImportOptions, AssExportOptions, AssStyle } from './ass';
+export { importSrt, exportSrt, parseSrt } from './srt';
+export { importWebVtt, exportWebVtt, parseWebVtt } from './webvtt';
+export type { WebVttExportOptions } from './webvtt';
+export { cuesToTimingSyncData, DEFAULT_SPEAKER_PALETTE } from './cues';
+export type { TextCue, CueImportOptions } from './cues';
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { exportSrt, importSrt, parseSrt } from './srt';
+import { createEvent, createTimingSyncData } from '../test/fixtures';
+import { parseTimingSyncData } from '../utils/validation';
+
+const createData = () => createTimingSyncData([
+  createEvent('sync_002', [['See', 4, 4.4], ['you', 4.4, 5]]),
+  createEvent('sync_001', [['Hello', 1, 1.3], ['world', 1.3, 2]])
+]);
+
+describe('SRT', () => {
+  it('parses cues, strips markup and accepts CRLF / BOM input', () => {
+    const text = '﻿1\r\n00:00:01,000 --> 00:00:02,500\r\n<i>Hello</i> {\\an8}there\r\nfriend\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nBye\r\n';
+    expect(parseSrt(text)).toEqual([
+      { start: 1, end: 2.5, text: 'Hello there friend' },
+      { start: 3, end: 4, text: 'Bye' }
+    ]);
+  });
+
+  it('exports one cue per event in time order', () => {
+    expect(exportSrt(createData())).toBe(
+      '1\n00:00:00,500 --> 00:00:02,000\nHello world\n\n' +
+      '2\n00:00:03,500 --> 00:00:05,000\nSee you\n'
+    );
+  });
+
+  it('round trips cue timing and text', () => {
+    const data = createData();
+    const imported = importSrt(exportSrt(data));
+    expect(parseTimingSyncData(imported).ok).toBe(true);
+    expect(imported.sync_events.map(event => [event.sentence, event.pre_reading.start, event.pre_reading.end])).toEqual([
+      ['Hello world', 0.5, 2],
+      ['See you', 3.5, 5]
+    ]);
+    // 단어 타이밍은 큐 구간 균등 분배
+    expect(imported.sync_events[0].active_speech_words.map(word => [word.start, word.end])).toEqual([[0.5, 1.25], [1.25, 2]]);
+    expect(exportSrt(imported)).toBe(exportSrt(data));
+  });
+});
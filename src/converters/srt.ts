@@ -0,0 +1,41 @@
+import type { TimingSyncData } from '../types';
+import { cuesToTimingSyncData, formatCueTime, parseCueTime, syncEventToCue } from './cues';
+import type { CueImportOptions, TextCue } from './cues';
+
+const TIMING_LINE = /^\s*([\d:.,]+)\s*-->\s*([\d:.,]+)/;
+
+// SRT 텍스트 → 큐 목록 (HTML 태그 / {\an8} 같은 ASS 태그 제거)
+export const parseSrt = (text: string): TextCue[] => {
+  const cues: TextCue[] = [];
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n\s*\n/);
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter(line => line.trim().length > 0);
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = TIMING_LINE.exec(lines[timingIndex]) as RegExpExecArray;
+    const cueText = lines
+      .slice(timingIndex + 1)
+      .join(' ')
+      .replace(/<[^>]*>/g, '')
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    cues.push({ start: parseCueTime(start), end: parseCueTime(end), text: cueText });
+  }
+  return cues;
+};
+
+// SRT → TimingSyncData (단어 타이밍은 큐 구간 균등 분배)
+export const importSrt = (text: string, options: CueImportOptions = {}): TimingSyncData =>
+  cuesToTimingSyncData(parseSrt(text), options);
+
+// TimingSyncData → SRT (SyncEvent 하나당 큐 하나)
+export const exportSrt = (data: TimingSyncData): string =>
+  data.sync_events
+    .map(syncEventToCue)
+    .sort((a, b) => a.start - b.start)
+    .map((cue, i) => `${i + 1}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
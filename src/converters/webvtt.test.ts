@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { exportWebVtt, importWebVtt, parseWebVtt } from './webvtt';
+import { createEvent, createTimingSyncData } from '../test/fixtures';
+import { parseTimingSyncData } from '../utils/validation';
+
+const createData = () => createTimingSyncData([
+  createEvent('sync_001', [['Hello', 1, 1.3], ['world', 1.5, 2]]),
+  createEvent('sync_002', [['Fish', 3, 3.5], ['&', 3.5, 3.6], ['chips', 3.6, 4]], { speaker_id: 'SPEAKER_01' })
+]);
+
+const speakerName = (speakerId: string) => (speakerId === 'SPEAKER_00' ? 'Alice' : speakerId);
+
+describe('WebVTT', () => {
+  it('requires the WEBVTT header', () => {
+    expect(() => parseWebVtt('00:01.000 --> 00:02.000\nHello')).toThrow(/WEBVTT/);
+  });
+
+  it('parses voice spans and inline timestamps, skipping NOTE / STYLE blocks', () => {
+    const text = [
+      'WEBVTT',
+      '',
+      'NOTE exported by a tool',
+      '',
+      'STYLE',
+      '::cue { color: white }',
+      '',
+      'intro',
+      '00:01.000 --> 00:03.000',
+      '<v.loud Bob>Hi <00:00:02.000><c>there</c> &amp; you'
+    ].join('\n');
+    const [cue, ...rest] = parseWebVtt(text);
+    expect(rest).toHaveLength(0);
+    expect(cue).toMatchObject({ start: 1, end: 3, text: 'Hi there & you', speaker: 'Bob' });
+    // 타임스탬프 구간 안의 단어는 균등 분배
+    expect(cue.words?.map(word => word.word)).toEqual(['Hi', 'there', '&', 'you']);
+    const bounds = cue.words?.flatMap(word => [word.start, word.end]) ?? [];
+    [1, 2, 2, 7 / 3, 7 / 3, 8 / 3, 8 / 3, 3].forEach((expected, i) => expect(bounds[i]).toBeCloseTo(expected, 6));
+  });
+
+  it('exports voice spans with display names and escaped text', () => {
+    expect(exportWebVtt(createData(), { speakerName })).toBe(
+      'WEBVTT\n\n' +
+      '00:00:00.500 --> 00:00:02.000\n<v Alice>Hello world\n\n' +
+      '00:00:02.500 --> 00:00:04.000\n<v SPEAKER_01>Fish &amp; chips\n'
+    );
+    expect(exportWebVtt(createData(), { voiceSpans: false })).toContain('\nHello world\n');
+  });
+
+  it('round trips speakers and karaoke word starts', () => {
+    const data = createData();
+    const imported = importWebVtt(exportWebVtt(data, { karaoke: true, speakerName }));
+    expect(parseTimingSyncData(imported).ok).toBe(true);
+    expect(imported.sync_events.map(event => [event.speaker_id, event.sentence])).toEqual([
+      ['Alice', 'Hello world'],
+      ['SPEAKER_01', 'Fish & chips']
+    ]);
+    imported.sync_events.forEach((event, eventIndex) => {
+      const source = data.sync_events[eventIndex];
+      expect(event.pre_reading.start).toBe(source.pre_reading.start);
+      expect(event.pre_reading.end).toBe(source.pre_reading.end);
+      expect(event.active_speech_words.map(word => word.start)).toEqual(source.active_speech_words.map(word => word.start));
+    });
+    // 단어 끝은 다음 타임스탬프 (마지막 단어는 큐 끝)
+    expect(imported.sync_events[0].active_speech_words.map(word => word.end)).toEqual([1.5, 2]);
+    expect(exportWebVtt(imported, { karaoke: true, voiceSpans: false })).toBe(exportWebVtt(data, { karaoke: true, voiceSpans: false }));
+  });
+});
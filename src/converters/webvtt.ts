@@ -0,0 +1,130 @@
+import type { TimingSyncData } from '../types';
+import { cuesToTimingSyncData, formatCueTime, parseCueTime, syncEventToCue } from './cues';
+import type { CueImportOptions, TextCue } from './cues';
+
+export interface WebVttExportOptions {
+  // 단어별 <00:00:01.200> 카라오케 타임스탬프 추가
+  karaoke?: boolean;
+  // speaker_id 를 <v Speaker> 음성 스팬으로 표기
+  voiceSpans?: boolean;
+  // speaker_id → 표시 이름 (기본: data.speakers 의 display_name, 없으면 speaker_id)
+  speakerName?: (speakerId: string) => string;
+}
+
+const TIMING_LINE = /^\s*([\d:.]+)\s*-->\s*([\d:.]+)/;
+const INLINE_TOKEN = /<([^>]*)>|([^<]+)/g;
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&amp;/g, '&');
+
+const encodeEntities = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// 큐 본문의 <v Speaker>, <00:00:01.200> 태그를 해석하여 화자와 단어 타이밍을 추출
+const parseCuePayload = (payload: string, start: number, end: number): TextCue => {
+  let speaker: string | undefined;
+  let segmentStart = start;
+  const segments: { start: number; text: string }[] = [{ start, text: '' }];
+
+  let token: RegExpExecArray | null;
+  INLINE_TOKEN.lastIndex = 0;
+  while ((token = INLINE_TOKEN.exec(payload)) !== null) {
+    if (token[2] !== undefined) {
+      segments[segments.length - 1].text += decodeEntities(token[2]);
+      continue;
+    }
+    const tag = token[1].trim();
+    if (/^v[\s.]/.test(tag) && speaker === undefined) {
+      speaker = tag.replace(/^v(\.[^\s]+)?\s+/, '').trim() || undefined;
+    } else if (/^[\d:.]+$/.test(tag)) {
+      segmentStart = parseCueTime(tag);
+      segments.push({ start: segmentStart, text: '' });
+    }
+    // 그 외 태그(<c>, <b>, <i>, <ruby> ...)는 텍스트만 유지
+  }
+
+  // 타임스탬프 구간 안의 단어는 구간 길이를 균등 분배
+  const words: NonNullable<TextCue['words']> = [];
+  segments.forEach((segment, i) => {
+    const segmentEnd = segments[i + 1]?.start ?? end;
+    const tokens = segment.text.split(/\s+/).filter(Boolean);
+    const step = tokens.length > 0 ? (segmentEnd - segment.start) / tokens.length : 0;
+    tokens.forEach((word, j) => {
+      words.push({ word, start: segment.start + step * j, end: segment.start + step * (j + 1) });
+    });
+  });
+  const hasTimestamps = segments.length > 1;
+
+  return {
+    start,
+    end,
+    text: words.map(w => w.word).join(' '),
+    speaker,
+    ...(hasTimestamps && { words })
+  };
+};
+
+// WebVTT 텍스트 → 큐 목록 (NOTE / STYLE / REGION 블록은 무시)
+export const parseWebVtt = (text: string): TextCue[] => {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  if (!/^WEBVTT/.test(normalized)) {
+    throw new Error('Invalid WebVTT file: missing WEBVTT header');
+  }
+
+  const cues: TextCue[] = [];
+  for (const block of normalized.split(/\n\s*\n/).slice(1)) {
+    const lines = block.split('\n').filter(line => line.trim().length > 0);
+    if (lines.length === 0 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    const timingIndex = lines.findIndex(line => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue;
+
+    const [, start, end] = TIMING_LINE.exec(lines[timingIndex]) as RegExpExecArray;
+    const payload = lines.slice(timingIndex + 1).join(' ');
+    cues.push(parseCuePayload(payload, parseCueTime(start), parseCueTime(end)));
+  }
+  return cues;
+};
+
+// WebVTT → TimingSyncData (<v> → speaker_id, 인라인 타임스탬프 → 단어 타이밍)
+export const importWebVtt = (text: string, options: CueImportOptions = {}): TimingSyncData =>
+  cuesToTimingSyncData(parseWebVtt(text), options);
+
+// TimingSyncData → WebVTT (<track> 용)
+export const exportWebVtt = (data: TimingSyncData, options: WebVttExportOptions = {}): string => {
+  const {
+    karaoke = false,
+    voiceSpans = true,
+    speakerName = (id: string) => data.speakers?.[id]?.display_name ?? id
+  } = options;
+
+  const cues = data.sync_events
+    .map(syncEventToCue)
+    .sort((a, b) => a.start - b.start)
+    .map(cue => {
+      const words = cue.words && cue.words.length > 0 ? cue.words : null;
+      let payload = words && karaoke
+        ? words
+            .map((word, i) => {
+              // 큐 시작 이후의 단어만 타임스탬프 표기 (큐 구간 밖 타임스탬프는 무효)
+              const stamp = i > 0 || word.start > cue.start
+                ? `<${formatCueTime(Math.min(Math.max(word.start, cue.start), cue.end), '.')}>`
+                : '';
+              return `${stamp}${encodeEntities(word.word)}`;
+            })
+            .join(' ')
+        : encodeEntities(cue.text);
+
+      if (voiceSpans && cue.speaker) {
+        payload = `<v ${encodeEntities(speakerName(cue.speaker))}>${payload}`;
+      }
+      return `${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${payload}`;
+    });
+
+  return ['WEBVTT', '', ...cues.flatMap(cue => [cue, ''])].join('\n');
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { CaptionEngine } from './CaptionEngine';
+import type { CaptionBoxOverflow, CaptionBoxPolicy, CaptionFrameState, SyncEvent } from '../types';
+import { createEvent, createLayoutSettings, createTimingSyncData } from '../test/fixtures';
+
+const viewport = { width: 640, height: 360 };
+// 글자 수 기준 측정 (환경과 관계없이 같은 줄 나눔)
+const textMeasurer = (text: string, font: { sizePx: number }) => text.length * font.sizePx * 0.5;
+
+// 화자 3명이 번갈아 겹쳐 말하고 (박스 2개를 넘음), 중간에 공백이 있는 대화
+// 문장은 박스 폭을 넘어 세그먼트 여러 개로 나뉨
+const createConversation = () => {
+  const events: SyncEvent[] = [];
+  const starts = [1, 2.5, 4, 5.5, 7, 8.5, 20, 21.2, 22.4];
+  starts.forEach((start, i) => {
+    const words = Array.from({ length: 12 }, (_, w): [string, number, number] =>
+      [`word${i}${String.fromCharCode(97 + w)}x`, start + w * 0.25, start + w * 0.25 + 0.2]);
+    events.push(createEvent(`sync_${String(i + 1).padStart(3, '0')}`, words, { speaker_id: `SPEAKER_0${i % 3}` }));
+  });
+  return createTimingSyncData(events, { layout_settings: createLayoutSettings() });
+};
+
+// 배치 비교용 요약 (박스 / 이벤트 / 세그먼트 / 위치 / 대기)
+const summarize = (frame: CaptionFrameState) => ({
+  boxes: frame.boxes.map(box => [box.key, box.event.event_id, box.segmentIndex, box.boxIndex, Math.round(box.geometry.bottom * 1000)]),
+  queued: frame.queuedEvents.map(event => event.event_id)
+});
+
+const frameTimes = (fps: number, end: number) => Array.from({ length: Math.ceil(end * fps) }, (_, i) => i / fps);
+
+// 결정적 셔플 (선형 합동 난수)
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  let seed = 42;
+  for (let i = result.length - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    const j = seed % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+describe('CaptionEngine', () => {
+  it('keeps words of overlapping events bound to their own event', () => {
+    const first = createEvent('sync_001', [['yes', 1, 1.4], ['sir', 1.4, 1.8]]);
+    const second = createEvent('sync_002', [['yes', 1.6, 2], ['maam', 2, 2.4]], { speaker_id: 'SPEAKER_01' });
+    const engine = new CaptionEngine(createTimingSyncData([first, second], { layout_settings: createLayoutSettings() }));
+
+    const frame = engine.getFrameState(1.2, viewport);
+    // 다른 이벤트의 같은 위치 / 같은 글자 단어는 발화 중이 아님
+    const byEvent = new Map(frame.boxes.map(box => [box.event.event_id, box.words]));
+    expect([...byEvent.keys()].sort()).toEqual(['sync_001', 'sync_002']);
+    expect(byEvent.get('sync_001')?.map(word => [word.word.word, word.phase])).toEqual([['yes', 'active'], ['sir', 'pre_reading']]);
+    expect(byEvent.get('sync_002')?.map(word => [word.word.word, word.phase])).toEqual([['yes', 'pre_reading'], ['maam', 'pre_reading']]);
+  });
+
+  it('emits lifecycle events for intervals skipped by a forward seek, in time order', () => {
+    const engine = new CaptionEngine(createTimingSyncData([
+      createEvent('sync_001', [['Hello', 1, 1.3], ['world', 1.4, 1.8]]),
+      createEvent('sync_002', [['Bye', 5, 5.5]])
+    ]));
+    const log: string[] = [];
+    engine.on('eventEnter', ({ event }) => log.push(`enter ${event.event_id}`));
+    engine.on('eventExit', ({ event }) => log.push(`exit ${event.event_id}`));
+    engine.on('wordStart', ({ word }) => log.push(`start ${word.word}`));
+    engine.on('wordEnd', ({ word }) => log.push(`end ${word.word}`));
+
+    engine.getFrameState(0, viewport);
+    engine.getFrameState(5.2, viewport);
+    expect(log).toEqual([
+      'enter sync_001', 'start Hello', 'end Hello', 'start world', 'end world', 'exit sync_001',
+      'enter sync_002', 'start Bye'
+    ]);
+
+    // 같은 시간을 다시 계산하면 전달하지 않음, 역방향 seek 은 화면 상태가 바뀐 것만
+    log.length = 0;
+    engine.getFrameState(5.2, viewport);
+    expect(log).toEqual([]);
+    engine.getFrameState(1.1, viewport);
+    expect(log).toEqual(['end Bye', 'exit sync_002', 'enter sync_001', 'start Hello']);
+  });
+
+  it('lays out a seeked frame the same as linear playback', () => {
+    const data = createConversation();
+    const times = frameTimes(10, 26);
+    const policies: CaptionBoxPolicy[] = ['stable-slot', 'newest-at-bottom', 'per-speaker-slot'];
+    const overflows: CaptionBoxOverflow[] = ['overflow', 'queue'];
+    for (const policy of policies) {
+      for (const overflow of overflows) {
+        const options = { textMeasurer, boxAllocation: { policy, overflow } };
+        const linear = new CaptionEngine(data, options);
+        const expected = new Map(times.map(time => [time, summarize(linear.getFrameState(time, viewport))]));
+        // 세그먼트가 넘어가고 박스가 넘치는 구간이 실제로 있어야 비교 의미가 있음
+        expect([...expected.values()].some(frame => frame.boxes.some(([, , segmentIndex]) => Number(segmentIndex) > 0))).toBe(true);
+        expect([...expected.values()].some(frame => frame.boxes.length + frame.queued.length > 2)).toBe(true);
+
+        const seeking = new CaptionEngine(data, options);
+        for (const time of shuffle(times)) {
+          expect(summarize(seeking.getFrameState(time, viewport)), `${policy}/${overflow} at ${time}`).toEqual(expected.get(time));
+        }
+      }
+    }
+  });
+});
@@ -0,0 +1,925 @@
+import type {
+  AvoidRegion,
+  CaptionBoxAnchor,
+  CaptionBoxFrame,
+  CaptionBoxGeometry,
+  CaptionEffectClock,
+  CaptionEngineEventMap,
+  CaptionEngineEventType,
+  CaptionFrameState,
+  CaptionPreferences,
+  CaptionStyle,
+  CaptionViewport,
+  CurrentEvents,
+  ElevationEffect,
+  NormalizedRect,
+  SpeakerInfo,
+  SpeakerPlacement,
+  SpeakerRegistry,
+  CaptionBoxAllocation,
+  SyncEvent,
+  TextMeasurer,
+  TimingSyncData,
+  Word,
+  WordWithEvent
+} from '../types';
+import { getElevationOffset, isElevationForEvent, matchElevationWords } from '../utils/elevation';
+import { isMusicCue } from '../utils/musicCue';
+import { isSoundEvent, isSpeechEvent } from '../utils/soundEvent';
+import { isSameCaptionPreferences, resolveCaptionPreferences } from '../utils/preferences';
+import { CaptionBoxAllocator } from './boxAllocation';
+import { IntervalIndex } from './intervalIndex';
+import type { IntervalCursor } from './intervalIndex';
+import type { BoxAllocationResult, CaptionBoxSlot } from './boxAllocation';
+import { createDisplayRuns, findDisplayRun } from './displayRuns';
+import type { DisplayRun } from './displayRuns';
+import { TextMeasurementService } from './measurement';
+import { createMusicCueWords } from './musicCueWords';
+import { createSoundEventWords } from './soundEventWords';
+import { HIGH_CONTRAST_PRE_READING_COLOR, applyEffectIntensity, applyHighContrast, getBoxBackgroundColor } from './preferences';
+import { getActiveAvoidRegions, getWorkAreaSpan, isPlacementRect, resolveStackOffset } from './placement';
+import type { StackAnchor } from './placement';
+import { getCaptionBoxMaxWidth, selectSegmentIndex, splitIntoSegments } from './segmentation';
+import { applySpeakerColor, getPlacementStyle, mergeSpeakerRegistry, resolveSpeakerFrame, speakerColorToCss } from './speakers';
+import { CAPTION_FONT_FAMILY, resolveWordFrame } from './wordStyle';
+
+export interface CaptionEngineOptions {
+  syncOffset?: number; // Sync offset in seconds (positive delays, negative advances)
+  speakers?: SpeakerRegistry; // data.speakers 를 화자별로 덮어씀
+  textMeasurer?: TextMeasurer; // 세그먼트 분할용 텍스트 폭 측정 (기본: canvas measureText, 없으면 근사치)
+  boxAllocation?: CaptionBoxAllocation; // data.layout_settings.box_allocation 을 덮어씀
+  avoidRegions?: AvoidRegion[]; // data.avoid_regions 에 추가되는 회피 영역
+  preferences?: Partial<CaptionPreferences>; // 시청자 캡션 설정 (글자 크기 / 배경 / 고대비 / 움직임 세기)
+  effectClock?: CaptionEffectClock; // 떨림 등 CSS 키프레임 효과의 시계 (기본 'media': 단어 스타일에 animation 없이 현재 값)
+}
+
+type CaptionEngineListener<K extends CaptionEngineEventType> = (payload: CaptionEngineEventMap[K]) => void;
+
+// 하단 / 상단 배치 묶음별 박스 할당
+const createBoxAllocators = () => ({ bottom: new CaptionBoxAllocator(), top: new CaptionBoxAllocator() });
+
+type SpeakerRanks = Record<'bottom' | 'top', Map<string, number>>;
+
+const getWordKey = (event: SyncEvent, word: Word) => `${event.event_id}:${word.word_index}`;
+
+interface WordEntry {
+  key: string;
+  word: Word;
+  event: SyncEvent;
+  withEvent: WordWithEvent;
+  wordPosition: number;  // event.active_speech_words 안의 위치
+}
+
+// 데이터마다 한 번 만드는 구간 인덱스 (이벤트 pre_reading / 단어 / elevation effect)
+interface TimingIndex {
+  events: IntervalIndex<SyncEvent>;
+  words: IntervalIndex<WordEntry>;
+  elevations: IntervalIndex<ElevationEffect>;
+  eventCursor: IntervalCursor<SyncEvent>;
+  wordCursor: IntervalCursor<WordEntry>;
+  elevationCursor: IntervalCursor<ElevationEffect>;
+  eventsById: Map<string, SyncEvent>;
+  eventPositions: Map<SyncEvent, number>;  // pre_reading.start 순 위치
+  runs: DisplayRun[];                      // 표시 구간 (박스 할당 재생 단위)
+}
+
+const createTimingIndex = (data: TimingSyncData, getDisplayWords: (event: SyncEvent) => Word[]): TimingIndex => {
+  const syncEvents = data.sync_events ?? [];
+  const events = new IntervalIndex(syncEvents, event => [event.pre_reading.start, event.pre_reading.end]);
+  const words = new IntervalIndex(
+    syncEvents.flatMap(event => event.active_speech_words.map((word, wordPosition) => ({
+      key: getWordKey(event, word),
+      word,
+      event,
+      withEvent: { ...word, event },
+      wordPosition
+    }))),
+    entry => [entry.word.start, entry.word.end]
+  );
+  const elevations = new IntervalIndex(data.elevation_effects ?? [], effect => [effect.start, effect.end]);
+  return {
+    events,
+    words,
+    elevations,
+    eventCursor: events.createCursor(),
+    wordCursor: words.createCursor(),
+    elevationCursor: elevations.createCursor(),
+    eventsById: new Map(syncEvents.map(event => [event.event_id, event])),
+    eventPositions: new Map(events.getSorted().map((event, position) => [event, position])),
+    runs: createDisplayRuns(events.getSorted(), getDisplayWords)
+  };
+};
+
+interface PlacedBox {
+  key: string;
+  slot: CaptionBoxSlot | null;
+  anchor: CaptionBoxAnchor;
+  rect?: NormalizedRect;
+  bottom: number;        // px
+  style: CaptionStyle;   // 박스 기본 스타일 위에 덮어쓰는 위치 스타일
+}
+
+interface EventDisplayData {
+  cacheKey: string;
+  event: SyncEvent;
+  displayEvent: SyncEvent;
+  segmentIndex: number;
+  segmentCount: number;
+  segmentChanged?: boolean;
+}
+
+// React / video 요소와 분리된 캡션 타이밍 엔진
+// 이벤트 선택, 세그먼트 분할 / 캐싱, 박스 할당, 단어별 스타일 결정을 담당하고
+// 렌더러(React, canvas 등)는 getFrameState 결과만 그리면 된다.
+// 프레임 상태는 시간 / 화면 크기 / 설정만으로 정해지므로 호출 순서와 관계없이 seek 해도 연속 재생과 같은 프레임
+// (박스 할당은 표시 구간 시작부터 상태 변화 시점을 재생해 결정, 시간 순 호출은 직전 위치부터 이어서 재생)
+// getFrameState 는 직전 호출과 비교한 생명주기 / segmentChange 이벤트를 전달하고 그 비교 상태를 갱신함
+export class CaptionEngine {
+  private data: TimingSyncData;
+  private syncOffset: number;
+  private speakerOverride: SpeakerRegistry | undefined;
+  private speakers: SpeakerRegistry | null = null;
+  private textMeasurer: TextMeasurer | undefined;
+  private measurement: TextMeasurementService;
+  private segmentCache = new Map<string, Word[][]>();
+  private nonSpeechWords = new WeakMap<SyncEvent, Word[]>();  // music_cue / sound 표시용 단어
+  // 박스 할당 재생에서 직전 상태 변화 시점의 세그먼트 인덱스 (stable-slot 세그먼트 변경 감지용)
+  private previousSegmentIndex = new Map<string, number>();
+  // 직전 getFrameState 의 세그먼트 인덱스 (segmentChange 전달용)
+  private emittedSegmentIndex = new Map<string, number>();
+  private boxAllocation: CaptionBoxAllocation | undefined;
+  private avoidRegions: AvoidRegion[] | undefined;
+  private preferences: CaptionPreferences;
+  private effectClock: CaptionEffectClock;
+  // 이벤트별 / 화자별 박스 위치 추적
+  private boxAllocators = createBoxAllocators();
+  // 박스 할당을 재생한 위치 (같은 표시 구간 안에서 앞으로 이동하면 이어서 재생)
+  private layoutCursor: { run: DisplayRun | undefined; adjustedTime: number; width: number; height: number } | null = null;
+  // 표시 구간 시작 시점의 화자별 박스 (per-speaker-slot, 이전 구간을 모두 재생한 결과)
+  private runSpeakerRanks = new Map<DisplayRun, SpeakerRanks>();
+  private timingIndex: TimingIndex | null = null;
+  private listeners = new Map<CaptionEngineEventType, Set<unknown>>();
+  // 전환 감지용 직전 프레임 상태
+  private lastAdjustedTime: number | null = null;
+  private enteredEvents = new Map<string, SyncEvent>();
+  private activeWords = new Map<string, WordEntry>();
+
+  constructor(data: TimingSyncData, options: CaptionEngineOptions = {}) {
+    this.data = data;
+    this.syncOffset = options.syncOffset ?? 0;
+    this.speakerOverride = options.speakers;
+    this.textMeasurer = options.textMeasurer;
+    this.boxAllocation = options.boxAllocation;
+    this.avoidRegions = options.avoidRegions;
+    this.preferences = resolveCaptionPreferences(options.preferences);
+    this.effectClock = options.effectClock ?? 'media';
+    this.measurement = new TextMeasurementService(options.textMeasurer);
+  }
+
+  getData(): TimingSyncData {
+    return this.data;
+  }
+
+  setData(data: TimingSyncData) {
+    if (data === this.data) return;
+    this.data = data;
+    this.timingIndex = null;
+    this.nonSpeechWords = new WeakMap();
+    this.speakers = null;
+    this.boxAllocators = createBoxAllocators();
+    this.lastAdjustedTime = null;
+    this.enteredEvents.clear();
+    this.activeWords.clear();
+    this.reset();
+  }
+
+  // 이벤트 구독 (반환값 호출 시 해제)
+  on<K extends CaptionEngineEventType>(type: K, listener: CaptionEngineListener<K>): () => void {
+    let listeners = this.listeners.get(type);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(type, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  off<K extends CaptionEngineEventType>(type: K, listener: CaptionEngineListener<K>) {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  private emit<K extends CaptionEngineEventType>(type: K, payload: CaptionEngineEventMap[K]) {
+    const listeners = this.listeners.get(type) as Set<CaptionEngineListener<K>> | undefined;
+    listeners?.forEach(listener => listener(payload));
+  }
+
+  getSyncOffset(): number {
+    return this.syncOffset;
+  }
+
+  setSyncOffset(syncOffset: number) {
+    this.syncOffset = syncOffset;
+  }
+
+  setSpeakers(speakers: SpeakerRegistry | undefined) {
+    if (speakers === this.speakerOverride) return;
+    this.speakerOverride = speakers;
+    this.speakers = null;
+    this.segmentCache.clear(); // 이름표 폭이 바뀔 수 있음
+    this.invalidateLayout();
+  }
+
+  // data.speakers + override 병합 결과
+  getSpeakers(): SpeakerRegistry {
+    if (!this.speakers) {
+      this.speakers = mergeSpeakerRegistry(this.data?.speakers, this.speakerOverride);
+    }
+    return this.speakers;
+  }
+
+  getSpeakerInfo(speakerId: string): SpeakerInfo | undefined {
+    return this.getSpeakers()[speakerId];
+  }
+
+  setBoxAllocation(boxAllocation: CaptionBoxAllocation | undefined) {
+    if (boxAllocation === this.boxAllocation) return;
+    this.boxAllocation = boxAllocation;
+    this.invalidateLayout();
+  }
+
+  // layout_settings.box_allocation + override
+  getBoxAllocation(): CaptionBoxAllocation {
+    return { ...this.data.layout_settings?.box_allocation, ...this.boxAllocation };
+  }
+
+  setAvoidRegions(avoidRegions: AvoidRegion[] | undefined) {
+    this.avoidRegions = avoidRegions;
+  }
+
+  // data.avoid_regions + 추가 회피 영역
+  getAvoidRegions(): AvoidRegion[] {
+    return [...(this.data.avoid_regions ?? []), ...(this.avoidRegions ?? [])];
+  }
+
+  setPreferences(preferences: Partial<CaptionPreferences> | undefined) {
+    const resolved = resolveCaptionPreferences(preferences);
+    if (isSameCaptionPreferences(resolved, this.preferences)) return;
+    this.preferences = resolved;
+    this.segmentCache.clear(); // 글자 크기 / loud 크기가 바뀌면 줄 나눔도 바뀜
+    this.invalidateLayout();
+  }
+
+  getPreferences(): CaptionPreferences {
+    return this.preferences;
+  }
+
+  setEffectClock(effectClock: CaptionEffectClock | undefined) {
+    this.effectClock = effectClock ?? 'media';
+  }
+
+  getEffectClock(): CaptionEffectClock {
+    return this.effectClock;
+  }
+
+  setTextMeasurer(measurer: TextMeasurer | undefined) {
+    if (measurer === this.textMeasurer) return;
+    this.textMeasurer = measurer;
+    this.measurement = new TextMeasurementService(measurer);
+    this.segmentCache.clear();
+    this.invalidateLayout();
+  }
+
+  // 웹폰트 로딩 완료 등으로 글자 폭이 바뀌었을 때 측정값 / 세그먼트 캐시 폐기
+  // (박스 할당은 다음 프레임에 표시 구간 시작부터 다시 재생)
+  invalidateMeasurements() {
+    this.measurement.clear();
+    this.segmentCache.clear();
+    this.invalidateLayout();
+  }
+
+  // 세그먼트 캐시 / 박스 할당 / segmentChange 감지 상태 초기화 (seek 후에는 필요 없음)
+  reset() {
+    this.segmentCache.clear();
+    this.previousSegmentIndex.clear();
+    this.emittedSegmentIndex.clear();
+    this.boxAllocators.top.reset();
+    this.boxAllocators.bottom.reset();
+    this.invalidateLayout();
+  }
+
+  // 박스 할당 재생 위치 / 구간 시작 스냅샷 폐기 (다음 프레임에 표시 구간 시작부터 다시 재생)
+  private invalidateLayout() {
+    this.layoutCursor = null;
+    this.runSpeakerRanks.clear();
+  }
+
+  // Apply sync offset - subtract offset from time to adjust timing
+  // If offset is positive (delay), we check earlier times
+  // If offset is negative (advance), we check later times
+  getAdjustedTime(time: number): number {
+    return time - this.syncOffset;
+  }
+
+  private getTimingIndex(): TimingIndex {
+    if (!this.timingIndex) {
+      this.timingIndex = createTimingIndex(this.data, event => this.getDisplayWords(event));
+    }
+    return this.timingIndex;
+  }
+
+  // 현재 시간에 해당하는 이벤트들 찾기 (sync offset 적용, 결과는 sync_events 순서)
+  // 구간 인덱스 커서 사용: 시간 순 호출은 변경분만 계산하고, 역방향 / 큰 이동은 트리 검색
+  getCurrentEvents(time: number): CurrentEvents {
+    if (!this.data) return { preReading: [], activeWords: [], elevations: [] };
+    return this.findCurrent(this.getAdjustedTime(time)).currentEvents;
+  }
+
+  private findCurrent(adjustedTime: number): { currentEvents: CurrentEvents; wordEntries: WordEntry[] } {
+    const index = this.getTimingIndex();
+    const wordEntries = index.wordCursor.seek(adjustedTime);
+    return {
+      currentEvents: {
+        preReading: index.eventCursor.seek(adjustedTime),
+        activeWords: wordEntries.map(entry => entry.withEvent),
+        elevations: index.elevationCursor.seek(adjustedTime)
+      },
+      wordEntries
+    };
+  }
+
+  // pre_reading.start 순으로 정렬된 이벤트
+  getSortedEvents(): readonly SyncEvent[] {
+    return this.getTimingIndex().events.getSorted();
+  }
+
+  getEventById(eventId: string): SyncEvent | undefined {
+    return this.getTimingIndex().eventsById.get(eventId);
+  }
+
+  // 이벤트를 처음부터 보여주기 위한 미디어 시간 (sync offset 적용)
+  getEventSeekTime(event: SyncEvent): number {
+    return Math.max(0, event.pre_reading.start + this.syncOffset);
+  }
+
+  // 주어진 시간 기준 다음(1) / 이전(-1) 이벤트
+  // 기준은 마지막으로 시작된 이벤트 (seek 직후의 부동소수점 오차 1ms 허용)
+  getAdjacentEvent(time: number, direction: 1 | -1): SyncEvent | undefined {
+    const adjustedTime = this.getAdjustedTime(time) + 0.001;
+    const events = this.getSortedEvents();
+    const currentIndex = this.getTimingIndex().events.countStartedBy(adjustedTime) - 1;
+    if (direction === -1 && currentIndex === -1) return undefined;
+    return events[currentIndex + direction];
+  }
+
+  // 주어진 시간 / 화면 크기의 캡션 프레임 상태 (호출 순서와 관계없이 같은 시간은 같은 프레임)
+  // 부수 효과: 직전 호출과 비교한 eventEnter / eventExit / wordStart / wordEnd / segmentChange 를 전달하고
+  // 비교 기준을 이 호출로 갱신 (프레임 결과에는 영향 없음)
+  getFrameState(time: number, viewport: CaptionViewport): CaptionFrameState {
+    const adjustedTime = this.getAdjustedTime(time);
+    this.advanceLayout(adjustedTime, viewport);
+    const { currentEvents, wordEntries } = this.findCurrent(adjustedTime);
+    this.emitTransitions(currentEvents.preReading, wordEntries, adjustedTime, time);
+    const { boxes, queuedEvents } = this.resolveBoxes(currentEvents, adjustedTime, viewport);
+
+    return {
+      time,
+      adjustedTime,
+      viewport: { ...viewport },
+      workAreaStyle: this.getWorkAreaStyle(),
+      boxes,
+      queuedEvents
+    };
+  }
+
+  // 직전 프레임과 비교하여 eventEnter / eventExit / wordStart / wordEnd 전달 (전환마다 한 번)
+  // 앞으로 이동하면 (연속 재생 / seek) 두 프레임 사이에 시작과 끝이 모두 지나간 이벤트 / 단어도 시작 + 종료를 전달
+  // 전환은 구간 경계 시간 순 (같은 시간이면 단어 종료 → 이벤트 종료 → 이벤트 진입 → 단어 시작, 그다음 이벤트 / 단어 순서)
+  // 역방향 seek 은 화면 상태가 바뀐 것만 전달
+  private emitTransitions(preReading: SyncEvent[], wordEntries: WordEntry[], adjustedTime: number, time: number) {
+    const index = this.getTimingIndex();
+    const previousTime = this.lastAdjustedTime;
+    const isForward = previousTime !== null && adjustedTime > previousTime;
+    // 프레임 사이에 시작과 끝이 모두 지나간 구간 (start 순)
+    const passedBetweenFrames = <T,>(intervals: IntervalIndex<T>, getEnd: (item: T) => number): T[] =>
+      isForward ? intervals.startingIn(previousTime, adjustedTime).filter(item => getEnd(item) < adjustedTime) : [];
+    const byEventPosition = (a: SyncEvent, b: SyncEvent) =>
+      (index.eventPositions.get(a) ?? 0) - (index.eventPositions.get(b) ?? 0);
+    const byWordPosition = (a: WordEntry, b: WordEntry) => byEventPosition(a.event, b.event) || a.wordPosition - b.wordPosition;
+
+    const activeWords = new Map(wordEntries.map(entry => [entry.key, entry]));
+    const enteredEvents = new Map(preReading.map(event => [event.event_id, event]));
+    const transitions: { at: number; order: number; emit: () => void }[] = [];
+    const add = (at: number, [order, emit]: [number, () => void]) => transitions.push({ at: isForward ? at : adjustedTime, order, emit });
+    const wordEnd = (entry: WordEntry): [number, () => void] => [0, () => this.emit('wordEnd', { word: entry.word, event: entry.event, time })];
+    const eventExit = (event: SyncEvent): [number, () => void] => [1, () => this.emit('eventExit', { event, time })];
+    const eventEnter = (event: SyncEvent): [number, () => void] => [2, () => this.emit('eventEnter', { event, time })];
+    const wordStart = (entry: WordEntry): [number, () => void] => [3, () => this.emit('wordStart', { word: entry.word, event: entry.event, time })];
+
+    // 끝난 단어 / pre-reading 에서 나간 이벤트
+    this.activeWords.forEach((entry, key) => {
+      if (!activeWords.has(key)) add(entry.word.end, wordEnd(entry));
+    });
+    [...this.enteredEvents.values()]
+      .filter(event => !enteredEvents.has(event.event_id))
+      .sort(byEventPosition)
+      .forEach(event => add(event.pre_reading.end, eventExit(event)));
+
+    // 새로 pre-reading 에 들어온 이벤트 / 프레임 사이에 들어왔다 나간 이벤트
+    const newEvents = [
+      ...preReading.filter(event => !this.enteredEvents.has(event.event_id)).map(event => ({ event, passed: false })),
+      ...passedBetweenFrames(index.events, event => event.pre_reading.end).map(event => ({ event, passed: true }))
+    ];
+    newEvents
+      .sort((a, b) => byEventPosition(a.event, b.event))
+      .forEach(({ event, passed }) => {
+        add(event.pre_reading.start, eventEnter(event));
+        if (passed) add(event.pre_reading.end, eventExit(event));
+      });
+
+    // 새로 시작된 단어 / 프레임 사이에 시작과 끝이 모두 지나간 단어
+    const newWords = [
+      ...wordEntries.filter(entry => !this.activeWords.has(entry.key)).map(entry => ({ entry, passed: false })),
+      ...passedBetweenFrames(index.words, entry => entry.word.end)
+        .filter(entry => !this.activeWords.has(entry.key))
+        .map(entry => ({ entry, passed: true }))
+    ];
+    newWords
+      .sort((a, b) => byWordPosition(a.entry, b.entry))
+      .forEach(({ entry, passed }) => {
+        add(entry.word.start, wordStart(entry));
+        if (passed) add(entry.word.end, wordEnd(entry));
+      });
+
+    // 안정 정렬: 같은 시간 / 같은 종류면 추가한 순서
+    transitions.sort((a, b) => a.at - b.at || a.order - b.order).forEach(transition => transition.emit());
+
+    this.lastAdjustedTime = adjustedTime;
+    this.enteredEvents = enteredEvents;
+    this.activeWords = activeWords;
+  }
+
+  // 현재 시간에 표시해야 할 이벤트 찾기
+  // 우선순위: 1) 현재 발화 중인 단어가 있는 이벤트 (word_index가 낮은 것 우선) 2) pre-reading 시간 범위에 있는 이벤트
+  private selectPrimaryEvent(currentEvents: CurrentEvents, adjustedTime: number): SyncEvent | undefined {
+    const { preReading } = currentEvents;
+    let currentEvent: SyncEvent | undefined;
+    let lowestWordIndex = Infinity;
+
+    // 이벤트별 첫 번째 발화 중 단어 (activeWords 는 sync_events / 단어 순서)
+    const firstActiveWords = new Map<SyncEvent, WordWithEvent>();
+    for (const word of currentEvents.activeWords) {
+      if (!firstActiveWords.has(word.event)) firstActiveWords.set(word.event, word);
+    }
+
+    // 여러 이벤트에 같은 단어가 있을 경우, word_index가 낮은 (문장 앞쪽) 이벤트를 선택
+    for (const event of preReading) {
+      const activeWord = firstActiveWords.get(event);
+      if (activeWord && activeWord.word_index < lowestWordIndex) {
+        currentEvent = event;
+        lowestWordIndex = activeWord.word_index;
+      }
+    }
+
+    // 발화 중인 단어가 없으면 pre-reading 구간의 이벤트 (발화 이벤트 우선)
+    const inRange = preReading.filter(event =>
+      adjustedTime >= event.pre_reading.start && adjustedTime <= event.pre_reading.end
+    );
+    return currentEvent ?? inRange.find(isSpeechEvent) ?? inRange[0];
+  }
+
+  // 화면에 표시하는 단어: music_cue 는 ♪ / 설명, sound 는 아이콘 / [label], 그 외는 active_speech_words
+  private getDisplayWords(event: SyncEvent): Word[] {
+    if (isSpeechEvent(event)) return event.active_speech_words;
+    let words = this.nonSpeechWords.get(event);
+    if (!words) {
+      words = isMusicCue(event) ? createMusicCueWords(event) : createSoundEventWords(event, this.data.layout_settings);
+      this.nonSpeechWords.set(event, words);
+    }
+    return words;
+  }
+
+  private getSegments(event: SyncEvent, viewport: CaptionViewport): { cacheKey: string; segments: Word[][] } {
+    // 세그먼트 캐싱 키 생성
+    const cacheKey = `${event.event_id}_${viewport.width}_${viewport.height}`;
+    let segments = this.segmentCache.get(cacheKey);
+    if (!segments) {
+      // 움직임 세기는 세그먼트 단어에 적용 (줄 나눔 측정과 렌더링이 같은 단어를 사용)
+      const intensity = this.preferences.effectIntensity / 100;
+      segments = splitIntoSegments(
+        this.getDisplayWords(event).map(word => applyEffectIntensity(word, intensity, this.data.layout_settings)),
+        this.data.layout_settings,
+        viewport,
+        this.measurement,
+        this.getSpeakerLabelWidth(event, viewport) + this.getRectWidthReduction(event, viewport),
+        this.preferences.textScale,
+        this.preferences.reducedMotion ?? false
+      );
+      this.segmentCache.set(cacheKey, segments);
+    }
+    return { cacheKey, segments };
+  }
+
+  // 같은 줄에 표시되는 화자 이름표 폭 (speakers.ts labelStyle / 오버레이 마크업 기준)
+  private getSpeakerLabelWidth(event: SyncEvent, viewport: CaptionViewport): number {
+    const speaker = resolveSpeakerFrame(event, this.getSpeakerInfo(event.speaker_id));
+    if (!speaker.showLabel) return 0;
+
+    const boxFontSize = this.getBoxFontSize(viewport);
+    const em = boxFontSize * 0.6;
+    const font = { family: CAPTION_FONT_FAMILY, sizePx: em, weight: 600, width: 100 };
+    const parts = [this.measurement.measure(speaker.displayName, font)];
+    if (speaker.icon) parts.push(this.measurement.measure(speaker.icon, font));
+    if (speaker.avatarUrl) parts.push(em * 1.6 + 4); // 아바타 + 테두리
+    return parts.reduce((sum, width) => sum + width, 0) + em * 0.3 * (parts.length - 1) + em * 0.5;
+  }
+
+  // 명시적 사각형 배치는 work_area 대신 사각형 너비 안에서 분할
+  private getRectWidthReduction(event: SyncEvent, viewport: CaptionViewport): number {
+    if (!isPlacementRect(event.placement)) return 0;
+    const layout = this.data.layout_settings;
+    const padding = viewport.width * (layout?.caption_box_style?.padding?.horizontal_percent ?? 3.5) / 100 * 2;
+    return Math.max(0, getCaptionBoxMaxWidth(layout, viewport) - (event.placement.width * viewport.width - padding));
+  }
+
+  private resolveDisplayData(event: SyncEvent, adjustedTime: number, viewport: CaptionViewport): EventDisplayData {
+    const { cacheKey, segments } = this.getSegments(event, viewport);
+
+    if (segments.length === 0) {
+      // 세그먼트가 없는 경우도 처리
+      return {
+        cacheKey,
+        event,
+        displayEvent: { ...event, active_speech_words: [] },
+        segmentIndex: 0,
+        segmentCount: 0,
+        segmentChanged: false
+      };
+    }
+
+    const segmentIndex = selectSegmentIndex(segments, adjustedTime);
+
+    // 세그먼트 변경 감지 (박스 할당용, 재생한 직전 상태 변화 시점과 비교)
+    const previousSegmentIndex = this.previousSegmentIndex.get(cacheKey);
+    const segmentChanged = previousSegmentIndex !== undefined && previousSegmentIndex !== segmentIndex;
+    this.previousSegmentIndex.set(cacheKey, segmentIndex);
+
+    return {
+      cacheKey,
+      event,
+      displayEvent: { ...event, active_speech_words: segments[segmentIndex] || [] },
+      segmentIndex,
+      segmentCount: segments.length,
+      segmentChanged
+    };
+  }
+
+  // 직전 getFrameState 와 세그먼트가 달라진 이벤트에 segmentChange 전달
+  private emitSegmentChanges(eventDisplayData: EventDisplayData[], adjustedTime: number) {
+    for (const item of eventDisplayData) {
+      if (item.segmentCount === 0) continue;
+      const previousSegmentIndex = this.emittedSegmentIndex.get(item.cacheKey);
+      this.emittedSegmentIndex.set(item.cacheKey, item.segmentIndex);
+      if (previousSegmentIndex === undefined || previousSegmentIndex === item.segmentIndex) continue;
+      this.emit('segmentChange', {
+        event: item.event,
+        segmentIndex: item.segmentIndex,
+        previousSegmentIndex,
+        words: item.displayEvent.active_speech_words,
+        time: adjustedTime + this.syncOffset
+      });
+    }
+  }
+
+  // 박스 할당 상태를 adjustedTime 직전까지 진행
+  // 표시 구간 시작부터 그 안의 상태 변화 시점을 차례로 할당하므로 결과는 시간만으로 정해짐
+  // (seek / 역방향 / 프레임 간격과 관계없이 연속 재생과 같은 박스, 시간 순 호출은 직전 위치부터 이어서 재생)
+  private advanceLayout(adjustedTime: number, viewport: CaptionViewport) {
+    const run = findDisplayRun(this.getTimingIndex().runs, adjustedTime);
+    const previous = this.layoutCursor;
+    const resume = previous !== null && previous.run === run && previous.adjustedTime <= adjustedTime &&
+      previous.width === viewport.width && previous.height === viewport.height;
+    if (!resume && run) this.restartLayout(run, viewport);
+    if (run) this.replayLayout(run, resume ? previous.adjustedTime : -Infinity, adjustedTime, viewport);
+    this.layoutCursor = { run, adjustedTime, width: viewport.width, height: viewport.height };
+  }
+
+  // 표시 구간 시작 상태로 되돌림 (화자별 박스는 이전 구간까지 재생한 결과)
+  private restartLayout(run: DisplayRun, viewport: CaptionViewport) {
+    const speakerRanks = this.getRunSpeakerRanks(run, viewport);
+    this.previousSegmentIndex.clear();
+    this.boxAllocators.top.reset(speakerRanks?.top);
+    this.boxAllocators.bottom.reset(speakerRanks?.bottom);
+  }
+
+  // from < 시점 < to 인 상태 변화 시점을 차례로 할당
+  private replayLayout(run: DisplayRun, from: number, to: number, viewport: CaptionViewport) {
+    for (const point of run.points) {
+      if (point <= from) continue;
+      if (point >= to) break;
+      this.allocateBoxes(this.findCurrent(point).currentEvents, point, viewport);
+    }
+  }
+
+  // 표시 구간 시작 시점의 화자별 박스 (per-speaker-slot 만, 스냅샷이 있는 구간부터 차례로 재생해 계산)
+  private getRunSpeakerRanks(run: DisplayRun, viewport: CaptionViewport): SpeakerRanks | undefined {
+    if (this.getBoxAllocation().policy !== 'per-speaker-slot') return undefined;
+    const runs = this.getTimingIndex().runs;
+    const target = runs.indexOf(run);
+    let index = target;
+    while (index > 0 && !this.runSpeakerRanks.has(runs[index])) index--;
+    let speakerRanks = this.runSpeakerRanks.get(runs[index]) ?? { top: new Map(), bottom: new Map() };
+    this.runSpeakerRanks.set(runs[index], speakerRanks);
+    for (; index < target; index++) {
+      this.previousSegmentIndex.clear();
+      this.boxAllocators.top.reset(speakerRanks.top);
+      this.boxAllocators.bottom.reset(speakerRanks.bottom);
+      this.replayLayout(runs[index], -Infinity, Infinity, viewport);
+      speakerRanks = { top: this.boxAllocators.top.getSpeakerRanks(), bottom: this.boxAllocators.bottom.getSpeakerRanks() };
+      this.runSpeakerRanks.set(runs[index + 1], speakerRanks);
+    }
+    return speakerRanks;
+  }
+
+  // 표시할 이벤트를 고르고 하단 / 상단 묶음별 박스 할당 (직전 할당 상태를 이어받음)
+  private allocateBoxes(
+    currentEvents: CurrentEvents,
+    adjustedTime: number,
+    viewport: CaptionViewport
+  ): { eventDisplayData: EventDisplayData[]; allocations: { group: 'top' | 'bottom'; allocation: BoxAllocationResult }[] } {
+    const currentEvent = this.selectPrimaryEvent(currentEvents, adjustedTime);
+    if (!currentEvent) {
+      this.boxAllocators.top.reset();
+      this.boxAllocators.bottom.reset();
+      return { eventDisplayData: [], allocations: [] };
+    }
+
+    // 동시에 발화하는 다른 화자가 있는지 확인 (같은 이벤트이거나 같은 speaker_id 는 제외)
+    // 음악 / 효과음 이벤트는 화자와 관계없이 함께 표시
+    const overlappingEvents = currentEvents.preReading.filter(event =>
+      event !== currentEvent &&
+      (event.speaker_id !== currentEvent.speaker_id || !isSpeechEvent(event) || !isSpeechEvent(currentEvent)) &&
+      adjustedTime >= event.pre_reading.start &&
+      adjustedTime <= event.pre_reading.end
+    );
+
+    const eventDisplayData = [currentEvent, ...overlappingEvents].map(event =>
+      this.resolveDisplayData(event, adjustedTime, viewport)
+    );
+    const layout = this.data.layout_settings;
+    const settings = this.getBoxAllocation();
+
+    // 하단 / 상단 묶음은 각자 박스 할당 (명시적 사각형은 할당 없이 그 위치)
+    const allocations = (['top', 'bottom'] as const).map(group => {
+      const items = eventDisplayData.filter(item => (isPlacementRect(item.event.placement) ? 'rect' : item.event.placement ?? 'bottom') === group);
+      const allocation = this.boxAllocators[group].allocate(
+        items.map(item => ({
+          eventId: item.event.event_id,
+          speakerId: item.event.speaker_id,
+          start: item.event.pre_reading.start,
+          segmentChanged: Boolean(item.segmentChanged),
+          sound: isSoundEvent(item.event)
+        })),
+        layout,
+        settings
+      );
+      return { group, allocation };
+    });
+    return { eventDisplayData, allocations };
+  }
+
+  private resolveBoxes(
+    currentEvents: CurrentEvents,
+    adjustedTime: number,
+    viewport: CaptionViewport
+  ): { boxes: CaptionBoxFrame[]; queuedEvents: SyncEvent[] } {
+    const { eventDisplayData, allocations } = this.allocateBoxes(currentEvents, adjustedTime, viewport);
+    this.emitSegmentChanges(eventDisplayData, adjustedTime);
+    if (eventDisplayData.length === 0) return { boxes: [], queuedEvents: [] };
+
+    const layout = this.data.layout_settings;
+    const queued = new Set<string>();
+    const placed = new Map<string, PlacedBox>();
+
+    const stacks = allocations.map(({ group, allocation }) => {
+      allocation.queued.forEach(eventId => queued.add(eventId));
+      const slots = [...allocation.slots.values()];
+      const base = Math.min(...slots.map(slot => slot.bottomPosition)) / 100;
+      const extent = Math.max(...slots.map(slot => slot.bottomPosition + slot.height)) / 100;
+      return { group, allocation, base, height: extent - base };
+    });
+
+    // 회피 영역: 묶음 전체를 영역 너머로 밀고, 화면을 벗어나면 반대쪽 (상단 묶음 아래)으로 이동
+    const regions = getActiveAvoidRegions(this.getAvoidRegions(), adjustedTime);
+    const span = getWorkAreaSpan(layout);
+    let topExtent = 0;
+    for (const stack of stacks) {
+      if (stack.allocation.slots.size === 0) continue;
+      let anchor: StackAnchor = stack.group;
+      let offset = resolveStackOffset(anchor, stack.base, stack.height, span, regions);
+      if (offset === null && stack.group === 'bottom') {
+        const spacing = topExtent > 0 ? (layout?.box_spacing ?? 0) / 100 : 0;
+        offset = resolveStackOffset('top', topExtent + spacing, stack.height, span, regions);
+        if (offset !== null) anchor = 'top';
+      }
+      offset ??= stack.base;
+      if (anchor === 'top') topExtent = Math.max(topExtent, offset + stack.height);
+
+      stack.allocation.slots.forEach((slot, eventId) => {
+        const slotOffset = offset + slot.bottomPosition / 100 - stack.base;
+        // 상단 배치는 박스 위쪽 가장자리를 화면 위에서 slotOffset 만큼 띄움
+        const bottom = anchor === 'bottom' ? slotOffset : 1 - slotOffset - slot.height / 100;
+        placed.set(eventId, {
+          key: `${stack.group}-${slot.boxIndex}`,
+          slot,
+          anchor,
+          bottom: bottom * viewport.height,
+          style: { bottom: `${bottom * viewport.height}px` }
+        });
+      });
+    }
+
+    for (const item of eventDisplayData) {
+      const placement = item.event.placement;
+      if (!isPlacementRect(placement)) continue;
+      placed.set(item.event.event_id, {
+        key: `rect-${item.event.event_id}`,
+        slot: null,
+        anchor: 'rect',
+        rect: placement,
+        bottom: (1 - placement.y - placement.height) * viewport.height,
+        style: this.getRectStyle(placement, viewport)
+      });
+    }
+
+    const boxes: CaptionBoxFrame[] = [];
+    eventDisplayData.forEach(item => {
+      const box = placed.get(item.event.event_id);
+      if (!box) return;
+
+      const speakerInfo = this.getSpeakerInfo(item.event.speaker_id);
+      const speaker = resolveSpeakerFrame(item.event, speakerInfo);
+      const placementStyle = box.anchor === 'rect' ? {} : getPlacementStyle(speaker.placement);
+
+      boxes.push({
+        key: box.key,
+        boxIndex: box.slot?.boxIndex ?? -1,
+        overflow: box.slot?.overflow ?? false,
+        anchor: box.anchor,
+        event: item.event,
+        speaker,
+        segmentIndex: item.segmentIndex,
+        segmentCount: item.segmentCount,
+        style: { ...this.getBoxStyle(box.slot, viewport), ...placementStyle, ...box.style },
+        geometry: this.getBoxGeometry(box, speaker.placement, viewport),
+        sentenceStyle: {
+          display: 'flex',
+          flexWrap: 'nowrap', // 자동 줄바꿈 방지
+          justifyContent: 'center',
+          alignItems: 'baseline',
+          gap: '4px',
+          whiteSpace: 'nowrap', // 텍스트 줄바꿈 방지
+          position: 'relative' // Allow elevated words to move independently
+        },
+        words: this.resolveWords(item, currentEvents, adjustedTime, viewport, speakerInfo)
+      });
+    });
+    boxes.sort((a, b) => a.key.localeCompare(b.key));
+
+    const queuedEvents = eventDisplayData.filter(item => queued.has(item.event.event_id)).map(item => item.event);
+    return { boxes, queuedEvents };
+  }
+
+  private resolveWords(
+    item: EventDisplayData,
+    currentEvents: CurrentEvents,
+    adjustedTime: number,
+    viewport: CaptionViewport,
+    speakerInfo: SpeakerInfo | undefined
+  ) {
+    const { highContrast, effectIntensity, textScale, reducedMotion } = this.preferences;
+    const preReadingColor = highContrast
+      ? HIGH_CONTRAST_PRE_READING_COLOR
+      : speakerInfo?.colors?.pre_reading && speakerColorToCss(speakerInfo.colors.pre_reading);
+
+    // Elevation effect: 이벤트 전체 단어 기준으로 매칭 후 단어별 상승량 계산 (비디오 시간 기반)
+    const elevationOffsets = new Map<number, number>();
+    const referenceHeight = this.data.layout_settings?.reference_resolution?.height ?? 1080;
+    for (const effect of currentEvents.elevations ?? []) {
+      if (!isElevationForEvent(effect, item.event)) continue;
+      matchElevationWords(effect, item.event).forEach((move, wordIndex) => {
+        const offset = getElevationOffset(move, effect.start, adjustedTime);
+        elevationOffsets.set(wordIndex, offset * (viewport.height / referenceHeight) * (effectIntensity / 100));
+      });
+    }
+
+    return item.displayEvent.active_speech_words.map((wordData, wordIndex) => {
+      const elevationOffset = elevationOffsets.get(wordData.word_index) ?? 0;
+      const word = applySpeakerColor(wordData, speakerInfo);
+      return resolveWordFrame(highContrast ? applyHighContrast(word) : word, {
+        key: `word-${wordIndex}`,
+        adjustedTime,
+        viewport,
+        layout: this.data.layout_settings,
+        elevationOffset,
+        // 겹치는 이벤트에 같은 위치의 같은 단어가 있을 수 있으므로 소속 이벤트까지 비교
+        isCurrentlyActive: currentEvents.activeWords.some(w =>
+          w.event.event_id === item.event.event_id && w.word === wordData.word && w.word_index === wordData.word_index
+        ),
+        preReadingColor: preReadingColor || undefined,
+        textScale,
+        reducedMotion,
+        effectClock: this.effectClock
+      });
+    });
+  }
+
+  // 박스 기준 글자 크기 (화자 이름표 등, 시청자 글자 크기 배율 반영)
+  private getBoxFontSize(viewport: CaptionViewport): number {
+    const baseline = this.data.layout_settings?.caption_box_style?.baseline_font_size_percent ?? 5;
+    return baseline * (viewport.height / 100) * this.preferences.textScale;
+  }
+
+  // 하단 작업 영역 - layout_settings 기반
+  private getWorkAreaStyle(): CaptionStyle {
+    const workArea = this.data.layout_settings?.work_area;
+    return {
+      position: 'absolute',
+      bottom: 0,
+      left: workArea?.safety_margins?.left_percent ? `${workArea.safety_margins.left_percent * 100}%` : '5%',
+      right: workArea?.safety_margins?.right_percent ? `${workArea.safety_margins.right_percent * 100}%` : '5%',
+      height: workArea?.bottom_percent ? `${workArea.bottom_percent}%` : '20%',
+      paddingBottom: workArea?.safety_margins?.bottom_percent ? `${workArea.safety_margins.bottom_percent * 100}%` : '2%',
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'flex-end',
+      overflow: 'visible' // Loud effect 등이 work_area를 넘어갈 수 있도록 허용
+    };
+  }
+
+  // 개별 Caption Box 스타일 - layout_settings 기반
+  private getBoxStyle(slot: CaptionBoxSlot | null, viewport: CaptionViewport): CaptionStyle {
+    const boxStyle = this.data.layout_settings?.caption_box_style;
+
+    return {
+      position: 'absolute',
+      bottom: `${(slot?.bottomPosition ?? 0) * viewport.height / 100}px`, // Convert to pixels based on screen height
+      left: '50%',
+      transform: 'translateX(-50%)',
+      width: 'fit-content', // Width fits content
+      // work_area가 이미 safety margin을 적용했으므로 work_area의 100% 사용
+      maxWidth: '100%',
+      height: `${(slot?.height ?? 10) * viewport.height / 100}px`,
+      display: 'inline-flex', // Changed to inline-flex to fit content width
+      alignItems: 'flex-end', // 하단 고정으로 baseline 유지
+      justifyContent: 'center', // Horizontal center
+      flexWrap: 'nowrap', // No wrapping
+      backgroundColor: getBoxBackgroundColor(this.data.layout_settings, this.preferences),
+      borderRadius: `${boxStyle?.border_radius ?? 0}px`,
+      padding: `${viewport.height * (boxStyle?.padding?.vertical_percent ?? 2.5) / 100}px ${viewport.width * (boxStyle?.padding?.horizontal_percent ?? 3.5) / 100}px`,
+      boxSizing: 'border-box',
+      overflow: 'visible', // 애니메이션이 box를 벗어나도록 허용
+      zIndex: !slot || slot.rank === 0 ? 2 : 1, // 가장 아래 box가 다른 box보다 위에 오도록
+      fontFamily: CAPTION_FONT_FAMILY,
+      fontSize: `${this.getBoxFontSize(viewport)}px`,
+      color: 'white',
+      lineHeight: 1, // 글자 크기 증가가 위로만 확장되도록
+      textAlign: 'center',
+      boxShadow: '0 2px 8px rgba(0, 0, 0, 0.4)'
+    };
+  }
+
+  private getBoxGeometry(box: PlacedBox, align: SpeakerPlacement, viewport: CaptionViewport): CaptionBoxGeometry {
+    const boxStyle = this.data.layout_settings?.caption_box_style;
+    const span = getWorkAreaSpan(this.data.layout_settings);
+    const area = box.rect
+      ? { areaLeft: box.rect.x * viewport.width, areaWidth: box.rect.width * viewport.width }
+      : { areaLeft: span.left * viewport.width, areaWidth: (span.right - span.left) * viewport.width };
+    return {
+      bottom: box.bottom,
+      height: box.rect ? box.rect.height * viewport.height : (box.slot?.height ?? 10) * viewport.height / 100,
+      ...area,
+      align: box.rect ? 'center' : align,
+      fixedWidth: Boolean(box.rect),
+      paddingX: viewport.width * (boxStyle?.padding?.horizontal_percent ?? 3.5) / 100,
+      paddingY: viewport.height * (boxStyle?.padding?.vertical_percent ?? 2.5) / 100,
+      fontSize: this.getBoxFontSize(viewport),
+      backgroundColor: getBoxBackgroundColor(this.data.layout_settings, this.preferences),
+      borderRadius: boxStyle?.border_radius ?? 0
+    };
+  }
+
+  // 명시적 사각형 배치 (박스는 work_area 안에 위치하므로 work_area 기준 px로 변환)
+  private getRectStyle(rect: NormalizedRect, viewport: CaptionViewport): CaptionStyle {
+    const span = getWorkAreaSpan(this.data.layout_settings);
+    return {
+      left: `${(rect.x - span.left) * viewport.width}px`,
+      right: 'auto',
+      bottom: `${(1 - rect.y - rect.height) * viewport.height}px`,
+      width: `${rect.width * viewport.width}px`,
+      maxWidth: 'none',
+      height: `${rect.height * viewport.height}px`,
+      transform: 'none'
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import type { AnimationPlugin } from '../types';
+import { BUILT_IN_ANIMATIONS, normalAnimation } from './builtinAnimations';
+
+// animation_type 이름 → 플러그인
+// 같은 이름으로 다시 등록하면 교체 (내장 애니메이션도 덮어쓸 수 있음)
+export class AnimationRegistry {
+  private plugins = new Map<string, AnimationPlugin>();
+
+  constructor(plugins: readonly AnimationPlugin[] = []) {
+    plugins.forEach(plugin => this.plugins.set(plugin.name, plugin));
+  }
+
+  // 반환값: 등록 해제 함수 (그 사이 같은 이름으로 다른 플러그인이 등록됐으면 아무것도 하지 않음)
+  register(plugin: AnimationPlugin): () => void {
+    this.plugins.set(plugin.name, plugin);
+    return () => {
+      if (this.plugins.get(plugin.name) === plugin) this.plugins.delete(plugin.name);
+    };
+  }
+
+  unregister(name: string): boolean {
+    return this.plugins.delete(name);
+  }
+
+  get(name: string): AnimationPlugin | undefined {
+    return this.plugins.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.plugins.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.plugins.keys());
+  }
+
+  // DOM 오버레이 <style> 에 넣을 플러그인 @keyframes
+  getKeyframes(): string {
+    return Array.from(this.plugins.values(), plugin => plugin.keyframes ?? '').filter(Boolean).join('\n');
+  }
+
+  // 등록되지 않은 이름은 normal 로 렌더링
+  resolve(name: string): AnimationPlugin {
+    return this.plugins.get(name) ?? this.plugins.get(normalAnimation.name) ?? normalAnimation;
+  }
+}
+
+// 플레이어 / 검증 / 내보내기가 함께 쓰는 기본 레지스트리
+export const animationRegistry = new AnimationRegistry(BUILT_IN_ANIMATIONS);
+
+export const registerAnimation = (plugin: AnimationPlugin): (() => void) => animationRegistry.register(plugin);
@@ -0,0 +1,179 @@
+import type { CaptionBoxAllocation, LayoutSettings } from '../types';
+
+// 박스 위치 (아래에서부터의 순서 = rank, 0 = 가장 아래)
+export interface CaptionBoxSlot {
+  boxIndex: number;        // caption_boxes 인덱스 (overflow 박스는 caption_boxes.length 이상)
+  rank: number;
+  bottomPosition: number;  // % (화면 높이 기준)
+  height: number;          // %
+  overflow: boolean;
+}
+
+export interface BoxAllocationRequest {
+  eventId: string;
+  speakerId: string;
+  start: number;           // pre_reading 시작 (대기 순서 / newest-at-bottom 정렬 기준)
+  segmentChanged: boolean;
+  sound?: boolean;         // 효과음: 발화 박스를 모두 배치한 뒤 남은 박스, 대기하지 않음
+}
+
+export interface BoxAllocationResult {
+  slots: Map<string, CaptionBoxSlot>;  // event_id → 박스
+  queued: string[];                    // overflow: 'queue' 에서 대기 중인 event_id
+}
+
+// caption_boxes 를 아래(bottom_position 작은 순)부터 정렬
+export const getCaptionBoxSlots = (layout: LayoutSettings | undefined): CaptionBoxSlot[] =>
+  (layout?.caption_boxes ?? [])
+    .map((box, boxIndex) => ({ boxIndex, rank: 0, bottomPosition: box.bottom_position, height: box.height, overflow: false }))
+    .sort((a, b) => a.bottomPosition - b.bottomPosition || b.boxIndex - a.boxIndex)
+    .map((slot, rank) => ({ ...slot, rank }));
+
+// rank 위치의 박스 (설정된 박스를 넘으면 가장 위 박스 위로 box_spacing 간격을 두고 쌓음)
+const getSlotAtRank = (slots: CaptionBoxSlot[], layout: LayoutSettings | undefined, rank: number): CaptionBoxSlot => {
+  if (rank < slots.length) return slots[rank];
+  const top = slots[slots.length - 1];
+  const spacing = layout?.box_spacing ?? 0;
+  const level = rank - slots.length + 1;
+  return {
+    boxIndex: rank,
+    rank,
+    bottomPosition: top.bottomPosition + level * (top.height + spacing),
+    height: top.height,
+    overflow: true
+  };
+};
+
+const byStart = (a: BoxAllocationRequest, b: BoxAllocationRequest) =>
+  a.start - b.start || a.eventId.localeCompare(b.eventId);
+
+// N개 캡션 박스 할당 (표시 중인 이벤트의 박스 / 화자별 박스를 프레임 사이에 유지)
+export class CaptionBoxAllocator {
+  private eventRanks = new Map<string, number>();
+  private speakerRanks = new Map<string, number>();
+
+  allocate(
+    requests: BoxAllocationRequest[],
+    layout: LayoutSettings | undefined,
+    settings: CaptionBoxAllocation = {}
+  ): BoxAllocationResult {
+    const slots = getCaptionBoxSlots(layout);
+    if (slots.length === 0) return { slots: new Map(), queued: [] };
+
+    const policy = settings.policy ?? 'stable-slot';
+    const overflow = settings.overflow ?? 'overflow';
+    const taken = new Set<number>();
+    const ranks = new Map<string, number>();
+    const queued: string[] = [];
+
+    const place = (request: BoxAllocationRequest, rank: number) => {
+      ranks.set(request.eventId, rank);
+      taken.add(rank);
+    };
+    const lowestFreeRank = (limit = slots.length) => {
+      for (let rank = 0; rank < limit; rank++) {
+        if (!taken.has(rank)) return rank;
+      }
+      return -1;
+    };
+    // 빈 박스가 없을 때 대기 또는 추가 박스
+    const placeOrOverflow = (request: BoxAllocationRequest) => {
+      const rank = lowestFreeRank();
+      if (rank !== -1) {
+        place(request, rank);
+      } else if (overflow === 'queue') {
+        queued.push(request.eventId);
+      } else {
+        place(request, lowestFreeRank(Infinity));
+      }
+    };
+
+    // 대기 중이던 이벤트가 먼저 박스를 받도록 시작 시간 순 (효과음은 마지막에 따로 배치)
+    const speechRequests = requests.filter(request => !request.sound);
+    const sorted = speechRequests.sort(byStart);
+
+    if (policy === 'newest-at-bottom') {
+      // 표시 중인 이벤트 + 대기 순서대로 표시할 이벤트를 고른 뒤 최신 순으로 아래부터 배치
+      const shown = sorted.filter(request => this.eventRanks.has(request.eventId));
+      for (const request of sorted) {
+        if (this.eventRanks.has(request.eventId)) continue;
+        if (overflow === 'queue' && shown.length >= slots.length) {
+          queued.push(request.eventId);
+        } else {
+          shown.push(request);
+        }
+      }
+      shown.sort(byStart).reverse().forEach((request, rank) => place(request, rank));
+    } else if (policy === 'per-speaker-slot') {
+      const activeSpeakers = new Set(speechRequests.map(request => request.speakerId));
+      for (const request of sorted) {
+        let rank = this.speakerRanks.get(request.speakerId);
+        if (rank === undefined || taken.has(rank)) {
+          // 처음 등장한 화자: 예약되지 않은 박스, 없으면 지금 화면에 없는 화자의 박스를 넘겨받음
+          const reservedByActive = new Set(
+            [...this.speakerRanks].filter(([speakerId]) => activeSpeakers.has(speakerId)).map(([, r]) => r)
+          );
+          const reservedAll = new Set(this.speakerRanks.values());
+          rank = undefined;
+          for (let candidate = 0; candidate < slots.length && rank === undefined; candidate++) {
+            if (!taken.has(candidate) && !reservedAll.has(candidate)) rank = candidate;
+          }
+          for (let candidate = 0; candidate < slots.length && rank === undefined; candidate++) {
+            if (!taken.has(candidate) && !reservedByActive.has(candidate)) rank = candidate;
+          }
+        }
+        if (rank !== undefined) {
+          this.speakerRanks.set(request.speakerId, rank);
+          place(request, rank);
+        } else {
+          placeOrOverflow(request);
+        }
+      }
+    } else {
+      // stable-slot
+      // 1단계: 세그먼트가 바뀌지 않은 표시 중 이벤트는 기존 박스 유지
+      for (const request of sorted) {
+        const rank = this.eventRanks.get(request.eventId);
+        if (!request.segmentChanged && rank !== undefined && !taken.has(rank)) place(request, rank);
+      }
+      // 2단계: 세그먼트가 바뀐 이벤트는 더 아래 박스가 비어 있으면 이동, 아니면 유지
+      for (const request of sorted) {
+        const rank = this.eventRanks.get(request.eventId);
+        if (!request.segmentChanged || rank === undefined) continue;
+        const lowerRank = lowestFreeRank(rank);
+        if (lowerRank !== -1) {
+          place(request, lowerRank);
+        } else if (!taken.has(rank)) {
+          place(request, rank);
+        }
+      }
+      // 3단계: 새 이벤트 (또는 대기 중이던 이벤트)는 가장 아래 빈 박스
+      for (const request of sorted) {
+        if (!ranks.has(request.eventId)) placeOrOverflow(request);
+      }
+    }
+
+    // 효과음: 발화가 차지하지 않은 박스 중 직전 박스 유지, 아니면 가장 아래 빈 박스 (없으면 추가 박스)
+    // 짧은 소리 표시는 늦게 보여 주면 의미가 없으므로 overflow: 'queue' 에서도 대기하지 않음
+    requests.filter(request => request.sound).sort(byStart).forEach(request => {
+      const rank = this.eventRanks.get(request.eventId);
+      place(request, rank !== undefined && !taken.has(rank) ? rank : lowestFreeRank(Infinity));
+    });
+
+    this.eventRanks = ranks;
+    const result = new Map<string, CaptionBoxSlot>();
+    ranks.forEach((rank, eventId) => result.set(eventId, getSlotAtRank(slots, layout, rank)));
+    return { slots: result, queued };
+  }
+
+  // 화자별 박스 (per-speaker-slot)
+  getSpeakerRanks(): Map<string, number> {
+    return new Map(this.speakerRanks);
+  }
+
+  // 이벤트 박스 위치 초기화 (화자별 박스는 유지, speakerRanks 를 넘기면 그 상태로 복원)
+  reset(speakerRanks?: ReadonlyMap<string, number>) {
+    this.eventRanks.clear();
+    if (speakerRanks) this.speakerRanks = new Map(speakerRanks);
+  }
+}
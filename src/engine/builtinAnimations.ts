@@ -0,0 +1,192 @@
+import type { AnimationConfigSchema, AnimationEffect, AnimationPlugin, Word } from '../types';
+import { getCharacterWaveOffset, getSingingOffset, getTremblingOffset } from './motion';
+
+// 발화 구간 안 (0 <= progress <= 1)
+export const isAnimationActive = (progress: number) => progress >= 0 && progress <= 1;
+
+// progress → 시간 (단어 발화 구간 기준)
+const getWordTime = (word: Word, progress: number) => word.start + progress * (word.end - word.start);
+
+const OPACITY_FIELD = { type: 'number', min: 0, max: 1, description: '단어 투명도' } as const;
+const FONT_SIZE_FIELD = { type: 'number', min: 0, description: '발화 중 글자 크기 (화면 높이 %)' } as const;
+
+// animation_config 에 값이 없을 때의 bouncing 웨이브 설정
+export const BOUNCING_DEFAULTS = { scale_percent: 115, min_height_percent: 0.5, max_height_percent: 2.5 } as const;
+
+// 움직임 줄이기: 웨이브 / 떨림 대신 발화 중 더 굵고 넓은 글자 (Roboto Flex wght / wdth 축)
+export const getReducedMotionEmphasis = (word: Word): AnimationEffect => ({
+  fontWeight: Math.min(1000, word.font_adjustments.weight + 200),
+  fontWidth: Math.max(word.font_adjustments.width || 100, 115)
+});
+
+// 발화 여부와 관계없이 적용되는 config.opacity
+const baseEffect = (word: Word): AnimationEffect => ({ opacity: word.animation_config?.opacity ?? 1 });
+
+const bouncing: AnimationPlugin = {
+  name: 'bouncing',
+  configSchema: {
+    scale_percent: { type: 'number', min: 0, description: '발화 중 확대율 (100 = 원래 크기)' },
+    wave_height_range: { type: 'object', description: '웨이브 높이 범위 { min, max } (화면 높이 %)' },
+    wave_enabled: { type: 'boolean' },
+    character_timings: { type: 'array', description: '글자별 웨이브 타이밍' }
+  },
+  perCharacter: true,
+  // animation_config 를 legacy bouncing_animation 웨이브 설정으로 변환
+  prepareWord: word => {
+    const config = word.animation_config ?? {};
+    return {
+      ...word,
+      bouncing_animation: {
+        enabled: true,
+        scale_increase_percent: (config.scale_percent || BOUNCING_DEFAULTS.scale_percent) - 100,
+        min_height_percent: config.wave_height_range?.min ?? BOUNCING_DEFAULTS.min_height_percent,
+        max_height_percent: config.wave_height_range?.max ?? BOUNCING_DEFAULTS.max_height_percent,
+        character_delay_ms: 0, // Not used, we use character timings
+        wave_pattern: 'sine',
+        character_timings: config.character_timings || word.bouncing_animation?.character_timings
+      }
+    };
+  },
+  animate: (word, charTiming, progress, viewport) => {
+    if (!charTiming) return {};
+    const time = charTiming.start_time + progress * (charTiming.end_time - charTiming.start_time);
+    return { translateY: getCharacterWaveOffset(word, charTiming.char_index, time, viewport.height) };
+  },
+  reducedMotion: (word, progress) => (isAnimationActive(progress) ? getReducedMotionEmphasis(word) : {})
+};
+
+const elevation: AnimationPlugin = {
+  name: 'elevation',
+  configSchema: {
+    position_y: { type: 'number', description: '발화 중 세로 이동 (1080p 기준 px, 음수 = 위)' },
+    scale_percent: { type: 'number', min: 0, description: '발화 중 확대율 (100 = 원래 크기)' },
+    trembling: { type: 'boolean', description: '발화 중 떨림' },
+    opacity: OPACITY_FIELD
+  },
+  animate: (word, _charTiming, progress, viewport) => {
+    const effect = baseEffect(word);
+    if (!isAnimationActive(progress)) return effect;
+
+    const config = word.animation_config ?? {};
+    const elevationY = (config.position_y || 0) * (viewport.height / 1080);
+    const scale = (config.scale_percent || 100) / 100;
+    if (!config.trembling) return { ...effect, translateY: elevationY, scale };
+
+    // DOM 은 trembling-elevated 키프레임, 수치 값은 같은 곡선의 현재 위치
+    const trembling = getTremblingOffset(getWordTime(word, progress));
+    return {
+      ...effect,
+      translateX: trembling.x,
+      translateY: elevationY + trembling.y,
+      scale,
+      cssAnimation: 'trembling-elevated 100ms infinite',
+      cssVariables: { '--elevation-y': `${elevationY}px`, '--elevation-scale': scale }
+    };
+  },
+  // 상승 대신 밑줄 + 정적 확대, 떨림은 굵기
+  reducedMotion: (word, progress) => {
+    const effect = baseEffect(word);
+    if (!isAnimationActive(progress)) return effect;
+    const config = word.animation_config ?? {};
+    return {
+      ...effect,
+      underline: 'solid',
+      scale: (config.scale_percent || 100) / 100,
+      ...(config.trembling && { fontWeight: getReducedMotionEmphasis(word).fontWeight })
+    };
+  }
+};
+
+const whisper: AnimationPlugin = {
+  name: 'whisper',
+  configSchema: { font_size_percent: FONT_SIZE_FIELD, opacity: OPACITY_FIELD },
+  animate: (word, _charTiming, progress, viewport) => {
+    const effect = baseEffect(word);
+    const fontSizePercent = word.animation_config?.font_size_percent;
+    // For whisper, use smaller size during pronunciation, return to baseline after
+    if (isAnimationActive(progress) && fontSizePercent) effect.fontSize = fontSizePercent * (viewport.height / 100);
+    return effect;
+  }
+};
+
+const loud: AnimationPlugin = {
+  name: 'loud',
+  configSchema: {
+    font_size_percent: FONT_SIZE_FIELD,
+    brightness: { type: 'number', min: 0, description: '발화 중 밝기 배율' },
+    font_weight: { type: 'number', min: 1, max: 1000, description: '발화 중 wght' },
+    text_shadow: { type: 'string', description: '발화 중 CSS text-shadow' },
+    opacity: OPACITY_FIELD
+  },
+  animate: (word, _charTiming, progress, viewport) => {
+    const effect = baseEffect(word);
+    if (!isAnimationActive(progress)) return effect;
+    const config = word.animation_config ?? {};
+    // For loud, use larger size during pronunciation, return to baseline after
+    if (config.font_size_percent) effect.fontSize = config.font_size_percent * (viewport.height / 100);
+    if (config.brightness) effect.brightness = config.brightness;
+    if (config.font_weight) effect.fontWeight = config.font_weight;
+    if (config.text_shadow) effect.textShadow = config.text_shadow;
+    return effect;
+  }
+};
+
+// 노래: 글자마다 자기 구간의 음높이를 따라 세로 이동 (updateWaveAnimations 의 sine 대신 pitch_contour)
+// 글자 구간 전에는 기준선, 구간이 끝나면 그 끝의 음높이에 머물고, 단어가 끝나면 기준선으로 복귀
+const singing: AnimationPlugin = {
+  name: 'singing',
+  configSchema: {
+    semitone_height_percent: { type: 'number', min: 0, description: '반음당 세로 이동 (화면 높이 %)' },
+    max_offset_percent: { type: 'number', min: 0, description: '최대 세로 이동 (화면 높이 %)' },
+    opacity: OPACITY_FIELD
+  },
+  perCharacter: true,
+  animate: (word, charTiming, progress, viewport) => {
+    if (!charTiming) return baseEffect(word);
+    const time = charTiming.start_time + progress * (charTiming.end_time - charTiming.start_time);
+    if (time < charTiming.start_time || time < word.start || time > word.end) return {};
+    return { translateY: getSingingOffset(word, Math.min(time, charTiming.end_time), viewport.height) };
+  },
+  // 음높이 이동 대신 물결 밑줄
+  reducedMotion: (word, progress) => ({ ...baseEffect(word), ...(isAnimationActive(progress) && { underline: 'wavy' as const }) })
+};
+
+// impact 효과음이 시작 직후 흔들리는 시간 (초)
+const IMPACT_SHAKE_SECONDS = 0.3;
+
+// 효과음 ([door slams]): 크기 / 굵기는 항상 적용, impact 는 시작 직후 세기에 비례해 흔들림
+const sound: AnimationPlugin = {
+  name: 'sound',
+  configSchema: {
+    font_size_percent: FONT_SIZE_FIELD,
+    font_weight: { type: 'number', min: 1, max: 1000, description: 'wght' },
+    sound_category: { type: 'string', description: 'impact / ambient / music / laughter' },
+    intensity: { type: 'number', min: 0, max: 1, description: '세기' },
+    opacity: OPACITY_FIELD
+  },
+  animate: (word, _charTiming, progress, viewport) => {
+    const config = word.animation_config ?? {};
+    const effect = baseEffect(word);
+    if (config.font_size_percent) effect.fontSize = config.font_size_percent * (viewport.height / 100);
+    if (config.font_weight) effect.fontWeight = config.font_weight;
+
+    const time = getWordTime(word, progress);
+    const elapsed = time - word.start;
+    if (config.sound_category === 'impact' && isAnimationActive(progress) && elapsed < IMPACT_SHAKE_SECONDS) {
+      const amplitude = (1 + 2 * (config.intensity ?? 0.5)) * (1 - elapsed / IMPACT_SHAKE_SECONDS);
+      const trembling = getTremblingOffset(time);
+      effect.translateX = trembling.x * amplitude;
+      effect.translateY = trembling.y * amplitude;
+    }
+    return effect;
+  }
+};
+
+// 등록되지 않은 animation_type 의 대체 애니메이션이기도 함
+export const normalAnimation: AnimationPlugin = {
+  name: 'normal',
+  configSchema: { opacity: OPACITY_FIELD } satisfies AnimationConfigSchema,
+  animate: word => baseEffect(word)
+};
+
+export const BUILT_IN_ANIMATIONS: AnimationPlugin[] = [bouncing, elevation, whisper, loud, singing, sound, normalAnimation];
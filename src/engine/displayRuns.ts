@@ -0,0 +1,51 @@
+import type { SyncEvent, Word } from '../types';
+
+// 단어 / 이벤트 경계 직후 (경계 시각의 부동소수 오차로 구간 밖이 되지 않도록)
+const BOUNDARY_EPSILON = 1e-4;
+
+// 연속으로 표시되는 구간 (pre_reading 이 겹치거나 맞닿은 이벤트 묶음)과 그 안의 상태 변화 시점
+// 표시할 이벤트 / 발화 중인 단어는 상태 변화 시점 사이에서 바뀌지 않음
+export interface DisplayRun {
+  start: number;
+  end: number;
+  points: number[];  // 보정 시간, 오름차순 (구간 끝 이후는 제외)
+}
+
+const getStatePoints = (event: SyncEvent, words: Word[]): number[] => [
+  event.pre_reading.start,
+  event.pre_reading.end,
+  ...words.flatMap(word => [word.start, word.end])
+].map(time => time + BOUNDARY_EPSILON);
+
+// getWords: 화면에 표시하는 단어 (music_cue / sound 는 표시용 단어)
+export const createDisplayRuns = (events: readonly SyncEvent[], getWords: (event: SyncEvent) => Word[]): DisplayRun[] => {
+  const runs: DisplayRun[] = [];
+  [...events]
+    .sort((a, b) => a.pre_reading.start - b.pre_reading.start)
+    .forEach(event => {
+      const last = runs[runs.length - 1];
+      if (last && event.pre_reading.start <= last.end) {
+        last.end = Math.max(last.end, event.pre_reading.end);
+        last.points.push(...getStatePoints(event, getWords(event)));
+      } else {
+        runs.push({ start: event.pre_reading.start, end: event.pre_reading.end, points: getStatePoints(event, getWords(event)) });
+      }
+    });
+  runs.forEach(run => {
+    run.points = run.points.filter(point => point <= run.end).sort((a, b) => a - b);
+  });
+  return runs;
+};
+
+// time 을 포함하는 표시 구간 (runs 는 시작 순이고 겹치지 않음)
+export const findDisplayRun = (runs: readonly DisplayRun[], time: number): DisplayRun | undefined => {
+  let low = 0;
+  let high = runs.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (runs[mid].start <= time) low = mid + 1;
+    else high = mid;
+  }
+  const run = runs[low - 1];
+  return run && time <= run.end ? run : undefined;
+};
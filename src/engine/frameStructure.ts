@@ -0,0 +1,48 @@
+import type { CaptionFrameState, CaptionStyle } from '../types';
+
+// 프레임마다 바뀌는 단어 스타일 (elevation 이동, 발화 시작 / 끝 전환 등)
+// 구조 키에서 제외하고 DOM 렌더러가 매 프레임 명령형으로 적용
+export const CONTINUOUS_WORD_STYLE_PROPERTIES = [
+  'transform',
+  'color',
+  'fontSize',
+  'fontWeight',
+  'fontVariationSettings',
+  'opacity',
+  'filter'
+] as const satisfies readonly (keyof CaptionStyle)[];
+
+const withoutContinuousValues = (style: CaptionStyle): CaptionStyle => ({
+  ...style,
+  ...Object.fromEntries(CONTINUOUS_WORD_STYLE_PROPERTIES.map(property => [property, undefined]))
+});
+
+// 프레임의 구조 키: 박스 / 이벤트 / 세그먼트 / 단어 단계 / 글자 색상이 같으면 같은 문자열
+// 시간에 따라 연속으로 바뀌는 값 (time, visual, 글자 offsetX / offsetY / scale, CONTINUOUS_WORD_STYLE_PROPERTIES)은 포함하지 않으므로
+// 키가 같은 프레임 사이에서는 DOM 구조를 다시 그리지 않고 연속 값만 명령형으로 적용하면 된다.
+export const getFrameStructureKey = (frame: CaptionFrameState): string =>
+  JSON.stringify([
+    frame.viewport.width,
+    frame.viewport.height,
+    frame.workAreaStyle,
+    frame.queuedEvents.map(event => event.event_id),
+    frame.boxes.map(box => [
+      box.key,
+      box.event.event_id,
+      box.boxIndex,
+      box.overflow,
+      box.anchor,
+      box.segmentIndex,
+      box.speaker,
+      box.style,
+      box.sentenceStyle,
+      box.words.map(wordFrame => [
+        wordFrame.key,
+        wordFrame.word.word,
+        wordFrame.phase,
+        wordFrame.renderMode,
+        withoutContinuousValues(wordFrame.style),
+        wordFrame.characters?.map(character => [character.char, character.color, character.pronounced])
+      ])
+    ])
+  ]);
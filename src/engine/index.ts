@@ -0,0 +1,50 @@
+export { CaptionEngine } from './CaptionEngine';
+export type { CaptionEngineOptions } from './CaptionEngine';
+export { getCaptionBoxMaxWidth, splitIntoSegments, selectSegmentIndex } from './segmentation';
+export { CaptionBoxAllocator, getCaptionBoxSlots } from './boxAllocation';
+export type { CaptionBoxSlot, BoxAllocationRequest, BoxAllocationResult } from './boxAllocation';
+export { getActiveAvoidRegions, resolveStackOffset } from './placement';
+export { IntervalIndex } from './intervalIndex';
+export type { IntervalCursor } from './intervalIndex';
+export { TextMeasurementService, createCanvasTextMeasurer, estimateTextWidth, applyCanvasFont } from './measurement';
+export {
+  getCharacterWaveOffset,
+  getTremblingOffset,
+  getPitchAt,
+  getSingingOffset,
+  getColorTransitionProgress,
+  getTransitionProgress,
+  mixCssColors,
+  parseCssColor
+} from './motion';
+export {
+  applyEffectIntensity,
+  applyHighContrast,
+  getHighContrastColor,
+  getBoxBackgroundColor,
+  HIGH_CONTRAST_PRE_READING_COLOR
+} from './preferences';
+export { createMusicCueWords } from './musicCueWords';
+export { createSoundEventWords } from './soundEventWords';
+export { CONTINUOUS_WORD_STYLE_PROPERTIES, getFrameStructureKey } from './frameStructure';
+export {
+  resolveWordFrame,
+  getWordMeasureFont,
+  getCharacterColorTransitionTime,
+  getCharacterTransitionColor,
+  getCharacterTiming,
+  getTimeProgress,
+  CAPTION_FONT_FAMILY,
+  PRE_READING_COLOR
+} from './wordStyle';
+export { AnimationRegistry, animationRegistry, registerAnimation } from './animationRegistry';
+export { BUILT_IN_ANIMATIONS, BOUNCING_DEFAULTS, getReducedMotionEmphasis, isAnimationActive } from './builtinAnimations';
+export type { WordStyleContext } from './wordStyle';
+export {
+  mergeSpeakerRegistry,
+  resolveSpeakerFrame,
+  applySpeakerColor,
+  getPlacementStyle,
+  speakerColorToCss,
+  speakerColorToAss
+} from './speakers';
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { IntervalIndex } from './intervalIndex';
+
+interface Interval {
+  id: number;
+  start: number;
+  end: number;
+}
+
+// 결정적 난수 구간 (겹침 / 같은 시작 / 길이 0 포함)
+const createIntervals = (count: number): Interval[] => {
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    return seed / 2147483648;
+  };
+  return Array.from({ length: count }, (_, id) => {
+    const start = Math.round(random() * 200) / 2;
+    return { id, start, end: start + Math.round(random() * 20) / 2 };
+  });
+};
+
+const bruteForce = (intervals: Interval[], time: number) =>
+  intervals.filter(interval => interval.start <= time && time <= interval.end);
+
+const ids = (intervals: readonly Interval[]) => intervals.map(interval => interval.id);
+
+describe('IntervalIndex', () => {
+  const intervals = createIntervals(300);
+  const index = new IntervalIndex(intervals, interval => [interval.start, interval.end]);
+  const times = Array.from({ length: 2200 }, (_, i) => i / 20 - 5);
+
+  it('finds closed intervals containing a time, in input order', () => {
+    for (const time of times) {
+      expect(ids(index.query(time))).toEqual(ids(bruteForce(intervals, time)));
+    }
+    expect(ids(index.query(intervals[0].start))).toContain(0);
+    expect(ids(index.query(intervals[0].end))).toContain(0);
+  });
+
+  it('sorts by start, keeping input order for equal starts', () => {
+    const sorted = index.getSorted();
+    expect(sorted).toHaveLength(intervals.length);
+    for (let i = 1; i < sorted.length; i++) {
+      const [previous, current] = [sorted[i - 1], sorted[i]];
+      expect(previous.start < current.start || (previous.start === current.start && previous.id < current.id)).toBe(true);
+    }
+  });
+
+  it('counts and lists intervals by start', () => {
+    for (const time of [-1, 0, 12.5, 50, 100, 200]) {
+      expect(index.countStartedBy(time)).toBe(intervals.filter(interval => interval.start <= time).length);
+    }
+    const started = index.startingIn(10, 20);
+    expect(ids(started).sort((a, b) => a - b)).toEqual(
+      ids(intervals.filter(interval => interval.start > 10 && interval.start <= 20))
+    );
+    expect(started.every((interval, i) => i === 0 || started[i - 1].start <= interval.start)).toBe(true);
+  });
+
+  it('gives the same results through a cursor for forward steps, jumps and backward seeks', () => {
+    const cursor = index.createCursor();
+    for (const time of times) {
+      expect(ids(cursor.seek(time))).toEqual(ids(bruteForce(intervals, time)));
+    }
+    for (const time of [90, 3, 3.05, 60, 59, 100.5, 0, 0]) {
+      expect(ids(cursor.seek(time))).toEqual(ids(bruteForce(intervals, time)));
+    }
+    cursor.reset();
+    expect(ids(cursor.seek(42))).toEqual(ids(bruteForce(intervals, 42)));
+  });
+
+  it('handles an empty index', () => {
+    const empty = new IntervalIndex<Interval>([], interval => [interval.start, interval.end]);
+    expect(empty.size).toBe(0);
+    expect(empty.query(1)).toEqual([]);
+    expect(empty.createCursor().seek(1)).toEqual([]);
+    expect(empty.countStartedBy(1)).toBe(0);
+  });
+});
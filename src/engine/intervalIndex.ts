@@ -0,0 +1,134 @@
+// 닫힌 구간 [start, end] 검색 인덱스 (데이터마다 한 번 생성)
+// start 순 정렬 배열 + 구간별 최대 end 트리
+// - time 을 포함하는 구간: O(log n + k log n)
+// - start 범위 검색: O(log n + k)
+// 결과는 입력 배열 순서 (query / cursor) 또는 start 순 (startingIn / getSorted)
+
+// 재생용 커서: 시간 순으로 조금씩 진행하면 새로 시작된 구간만 추가하고 끝난 구간만 제거
+export interface IntervalCursor<T> {
+  seek(time: number): T[];
+  reset(): void;
+}
+
+// 한 번에 이보다 많은 구간이 새로 시작되면 (seek 등) 커서 대신 트리 검색
+const MAX_CURSOR_STEP = 64;
+
+export class IntervalIndex<T> {
+  private items: T[] = [];
+  private starts: number[] = [];
+  private ends: number[] = [];
+  private orders: number[] = [];
+  private treeSize = 1;
+  private maxEnds: number[];
+
+  constructor(items: readonly T[], getRange: (item: T) => readonly [number, number]) {
+    const entries = items
+      .map((item, order) => {
+        const [start, end] = getRange(item);
+        return { item, order, start, end };
+      })
+      .sort((a, b) => a.start - b.start || a.order - b.order);
+    entries.forEach(entry => {
+      this.items.push(entry.item);
+      this.starts.push(entry.start);
+      this.ends.push(entry.end);
+      this.orders.push(entry.order);
+    });
+
+    while (this.treeSize < entries.length) this.treeSize *= 2;
+    this.maxEnds = new Array<number>(this.treeSize * 2).fill(-Infinity);
+    this.ends.forEach((end, position) => {
+      this.maxEnds[this.treeSize + position] = end;
+    });
+    for (let node = this.treeSize - 1; node >= 1; node--) {
+      this.maxEnds[node] = Math.max(this.maxEnds[node * 2], this.maxEnds[node * 2 + 1]);
+    }
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  // start 순 전체 (같으면 입력 순서)
+  getSorted(): readonly T[] {
+    return this.items;
+  }
+
+  // start <= time 인 구간 수
+  countStartedBy(time: number): number {
+    let low = 0;
+    let high = this.starts.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (this.starts[mid] <= time) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  // from < start <= to 인 구간 (start 순)
+  startingIn(from: number, to: number): T[] {
+    return this.items.slice(this.countStartedBy(from), this.countStartedBy(to));
+  }
+
+  // start <= time <= end 인 구간 (입력 순서)
+  query(time: number): T[] {
+    return this.toItems(this.findPositions(time));
+  }
+
+  createCursor(): IntervalCursor<T> {
+    let lastTime: number | null = null;
+    let next = 0;                  // 아직 시작하지 않은 첫 위치
+    let active: number[] = [];     // 입력 순서로 정렬된 위치
+
+    return {
+      seek: time => {
+        const started = this.countStartedBy(time);
+        if (lastTime === null || time < lastTime || started - next > MAX_CURSOR_STEP) {
+          active = this.findPositions(time);
+        } else {
+          const stillActive = active.filter(position => this.ends[position] >= time);
+          const entered: number[] = [];
+          for (let position = next; position < started; position++) {
+            if (this.ends[position] >= time) entered.push(position);
+          }
+          active = entered.length > 0 ? this.sortByOrder(stillActive.concat(entered)) : stillActive;
+        }
+        lastTime = time;
+        next = started;
+        return this.toItems(active);
+      },
+      reset: () => {
+        lastTime = null;
+        next = 0;
+        active = [];
+      }
+    };
+  }
+
+  private findPositions(time: number): number[] {
+    const positions: number[] = [];
+    this.collect(1, 0, this.treeSize, this.countStartedBy(time), time, positions);
+    return this.sortByOrder(positions);
+  }
+
+  // [low, high) 노드에서 위치 < limit (start <= time) 이고 end >= time 인 위치 수집
+  private collect(node: number, low: number, high: number, limit: number, time: number, positions: number[]) {
+    if (low >= limit || this.maxEnds[node] < time) return;
+    if (high - low === 1) {
+      positions.push(low);
+      return;
+    }
+    const mid = (low + high) >> 1;
+    this.collect(node * 2, low, mid, limit, time, positions);
+    this.collect(node * 2 + 1, mid, high, limit, time, positions);
+  }
+
+  private sortByOrder(positions: number[]): number[] {
+    return positions.sort((a, b) => this.orders[a] - this.orders[b]);
+  }
+
+  private toItems(positions: number[]): T[] {
+    return positions.map(position => this.items[position]);
+  }
+}
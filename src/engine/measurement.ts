@@ -0,0 +1,89 @@
+import type { TextMeasureFont, TextMeasurer } from '../types';
+
+// 전각 문자 (한글, CJK, 가나, 전각 기호) - 대략 1em 폭
+const WIDE_CHARACTER = /[\u1100-\u11FF\u2E80-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFE30-\uFE4F\uFF00-\uFF60\uFFE0-\uFFE6]/;
+
+// canvas를 쓸 수 없는 환경(SSR 등)의 근사치: 전각 1em, 그 외 0.6em, wdth 축 비율 반영
+export const estimateTextWidth: TextMeasurer = (text, font) => {
+  let ems = 0;
+  for (const char of text) {
+    ems += WIDE_CHARACTER.test(char) ? 1 : 0.6;
+  }
+  return ems * font.sizePx * (font.width / 100);
+};
+
+// canvas font-stretch 키워드와 wdth 축 값 (%)
+const FONT_STRETCHES: [CanvasFontStretch, number][] = [
+  ['ultra-condensed', 50],
+  ['extra-condensed', 62.5],
+  ['condensed', 75],
+  ['semi-condensed', 87.5],
+  ['normal', 100],
+  ['semi-expanded', 112.5],
+  ['expanded', 125],
+  ['extra-expanded', 150],
+  ['ultra-expanded', 200]
+];
+
+const nearestFontStretch = (width: number): [CanvasFontStretch, number] =>
+  FONT_STRETCHES.reduce((best, entry) => (Math.abs(entry[1] - width) < Math.abs(best[1] - width) ? entry : best));
+
+type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// canvas 에 폰트 설정 후 wdth 보정 비율 반환 (그린 / 잰 폭에 곱함)
+// canvas는 font-variation-settings를 지원하지 않으므로 wght는 font-weight, wdth는 가장 가까운 font-stretch 키워드로 설정
+export const applyCanvasFont = (ctx: Canvas2DContext, font: TextMeasureFont): number => {
+  const [stretch, stretchWidth] = nearestFontStretch(font.width);
+  ctx.font = `${Math.round(font.weight)} ${font.sizePx}px ${font.family}`;
+  if ('fontStretch' in ctx) ctx.fontStretch = stretch;
+  return font.width / stretchWidth;
+};
+
+// canvas measureText 기반 측정기 (canvas 미지원 환경이면 null)
+export const createCanvasTextMeasurer = (): TextMeasurer | null => {
+  let context: Canvas2DContext | null = null;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    context = new OffscreenCanvas(1, 1).getContext('2d');
+  } else if (typeof document !== 'undefined') {
+    context = document.createElement('canvas').getContext('2d');
+  }
+  if (!context) return null;
+  const ctx = context;
+
+  return (text, font) => {
+    const widthScale = applyCanvasFont(ctx, font);
+    return ctx.measureText(text).width * widthScale;
+  };
+};
+
+const getFontKey = (font: TextMeasureFont) => `${font.family}|${font.sizePx}|${font.weight}|${font.width}`;
+
+// 폰트 설정별 측정 결과 캐시
+export class TextMeasurementService {
+  private measurer: TextMeasurer;
+  private cache = new Map<string, Map<string, number>>();
+
+  constructor(measurer?: TextMeasurer) {
+    this.measurer = measurer ?? createCanvasTextMeasurer() ?? estimateTextWidth;
+  }
+
+  measure(text: string, font: TextMeasureFont): number {
+    const fontKey = getFontKey(font);
+    let fontCache = this.cache.get(fontKey);
+    if (!fontCache) {
+      fontCache = new Map();
+      this.cache.set(fontKey, fontCache);
+    }
+    let width = fontCache.get(text);
+    if (width === undefined) {
+      width = this.measurer(text, font);
+      fontCache.set(text, width);
+    }
+    return width;
+  }
+
+  // 웹폰트 로딩 완료 등으로 측정값이 달라졌을 때
+  clear() {
+    this.cache.clear();
+  }
+}
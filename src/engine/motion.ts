@@ -0,0 +1,144 @@
+import type { PitchPoint, Word } from '../types';
+
+// 시간 → 움직임 순수 함수 (DOM 의 GSAP / CSS 애니메이션과 같은 곡선, canvas 등에서 사용)
+
+// bouncing 웨이브 글자 세로 이동 (px, 음수 = 위)
+// -(max - min 높이) × |sin(진행률 × wave_cycles × 2π + 글자 위상 + peak_time 정렬)| × cos(진행률 × π/2)^1.5
+// (진행률은 글자 구간 character_timings 기준, 글자 위상 = charIndex × 2π / 글자 수)
+export const getCharacterWaveOffset = (word: Word, charIndex: number, time: number, screenHeight: number): number => {
+  const bouncing = word.bouncing_animation;
+  if (!bouncing?.enabled) return 0;
+
+  const charTiming = bouncing.character_timings?.[charIndex];
+  const startTime = charTiming?.start_time ?? word.start;
+  const duration = (charTiming?.end_time ?? word.end) - startTime;
+  const elapsed = time - startTime;
+  if (duration <= 0 || elapsed < 0 || elapsed > duration) return 0;
+
+  const bounceRange = screenHeight * ((bouncing.max_height_percent - bouncing.min_height_percent) / 100);
+  const charPhase = charIndex * ((Math.PI * 2) / word.word.length);
+  const waveCycles = bouncing.wave_cycles || 1.5;
+  const progress = elapsed / duration;
+
+  // peak_time (없으면 pronunciation_start)에 최고점이 오도록 위상 이동
+  const peakTime = charTiming?.peak_time ?? word.pronunciation_start;
+  const peakOffset = (peakTime - startTime) / duration;
+  const peakPhaseShift = -peakOffset * waveCycles * Math.PI * 2 + Math.PI / 2;
+
+  const sineValue = Math.abs(Math.sin(progress * waveCycles * Math.PI * 2 + charPhase + peakPhaseShift));
+  const damping = Math.pow(Math.cos(progress * Math.PI / 2), 1.5);
+  return -bounceRange * sineValue * damping;
+};
+
+// @keyframes trembling 키프레임 (100ms 주기)
+const TREMBLING_KEYFRAMES: [number, number][] = [[0, 0], [2, -1], [-1, 1], [1, -1], [0, 0]];
+const TREMBLING_PERIOD = 0.1;
+
+export const getTremblingOffset = (time: number): { x: number; y: number } => {
+  const cycle = ((time % TREMBLING_PERIOD) + TREMBLING_PERIOD) % TREMBLING_PERIOD / TREMBLING_PERIOD;
+  const position = cycle * (TREMBLING_KEYFRAMES.length - 1);
+  const index = Math.min(Math.floor(position), TREMBLING_KEYFRAMES.length - 2);
+  const t = position - index;
+  const [x0, y0] = TREMBLING_KEYFRAMES[index];
+  const [x1, y1] = TREMBLING_KEYFRAMES[index + 1];
+  return { x: x0 + (x1 - x0) * t, y: y0 + (y1 - y0) * t };
+};
+
+// 음높이 곡선의 time 시점 값 (반음, 점 사이 선형 보간, 범위 밖은 양 끝 값)
+export const getPitchAt = (contour: readonly PitchPoint[] | undefined, time: number): number => {
+  if (!contour || contour.length === 0) return 0;
+  if (time <= contour[0].time) return contour[0].semitones;
+  for (let i = 1; i < contour.length; i++) {
+    const next = contour[i];
+    if (time > next.time) continue;
+    const previous = contour[i - 1];
+    const span = next.time - previous.time;
+    const t = span > 0 ? (time - previous.time) / span : 1;
+    return previous.semitones + (next.semitones - previous.semitones) * t;
+  }
+  return contour[contour.length - 1].semitones;
+};
+
+// singing 기본값: 반음당 세로 이동 / 최대 이동 (화면 높이 %)
+export const SINGING_SEMITONE_HEIGHT_PERCENT = 0.3;
+export const SINGING_MAX_OFFSET_PERCENT = 4;
+
+// singing 단어의 time 시점 세로 이동 (px, 음수 = 위): 음높이 × 반음당 높이, 최대 이동으로 제한
+export const getSingingOffset = (word: Word, time: number, screenHeight: number): number => {
+  const config = word.animation_config ?? {};
+  const unit = screenHeight / 100;
+  const maxOffset = (config.max_offset_percent ?? SINGING_MAX_OFFSET_PERCENT) * unit;
+  const offset = getPitchAt(word.pitch_contour, time) * (config.semitone_height_percent ?? SINGING_SEMITONE_HEIGHT_PERCENT) * unit;
+  return -Math.max(-maxOffset, Math.min(maxOffset, offset));
+};
+
+// GSAP power2.inOut
+const easePower2InOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2);
+
+// CSS cubic-bezier(x1, y1, x2, y2) 타이밍 함수 (x → y, 이분법)
+const cubicBezier = (x1: number, y1: number, x2: number, y2: number) => {
+  const bezier = (t: number, p1: number, p2: number) => 3 * (1 - t) * (1 - t) * t * p1 + 3 * (1 - t) * t * t * p2 + t * t * t;
+  return (x: number): number => {
+    if (x <= 0) return 0;
+    if (x >= 1) return 1;
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 24; i++) {
+      const mid = (low + high) / 2;
+      if (bezier(mid, x1, x2) < x) low = mid;
+      else high = mid;
+    }
+    return bezier((low + high) / 2, y1, y2);
+  };
+};
+
+// CSS ease / cubic-bezier(0.4, 0.0, 0.2, 1)
+export const EASE = cubicBezier(0.25, 0.1, 0.25, 1);
+export const EASE_STANDARD = cubicBezier(0.4, 0, 0.2, 1);
+
+// CSS transition 진행률 (0~1): start 부터 durationSeconds 동안 timing 곡선, start 전은 0
+// 벽시계 대신 비디오 시간의 함수라서 seek / 일시정지 중 프레임 이동에도 연속 재생과 같은 값
+export const getTransitionProgress = (
+  start: number,
+  durationSeconds: number,
+  time: number,
+  timing: (x: number) => number = EASE
+): number => {
+  if (time < start) return 0;
+  if (durationSeconds <= 0) return 1;
+  return timing(Math.min(1, (time - start) / durationSeconds));
+};
+
+// 색상 전환 진행률 (0~1): transitionTime 부터 durationMs 동안
+export const getColorTransitionProgress = (transitionTime: number, durationMs: number, time: number): number => {
+  if (time < transitionTime) return 0;
+  if (durationMs <= 0) return 1;
+  return easePower2InOut(Math.min(1, (time - transitionTime) / (durationMs / 1000)));
+};
+
+// #RGB / #RRGGBB / rgb() / rgba() → [r, g, b, a]
+export const parseCssColor = (color: string): [number, number, number, number] | null => {
+  const value = color.trim();
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(value)?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? hex.split('').map(c => c + c).join('') : hex;
+    return [0, 2, 4].map(i => parseInt(full.slice(i, i + 2), 16)).concat(1) as [number, number, number, number];
+  }
+  const rgb = /^rgba?\(([^)]+)\)$/i.exec(value)?.[1];
+  if (rgb) {
+    const [r, g, b, a = 1] = rgb.split(',').map(part => parseFloat(part));
+    return [r, g, b, a];
+  }
+  return null;
+};
+
+// 두 CSS 색상 (#RGB / #RRGGBB / rgb() / rgba()) 보간, 해석할 수 없으면 진행률에 따라 둘 중 하나
+export const mixCssColors = (from: string, to: string, progress: number): string => {
+  if (progress <= 0) return from;
+  if (progress >= 1) return to;
+  const a = parseCssColor(from);
+  const b = parseCssColor(to);
+  if (!a || !b) return progress < 0.5 ? from : to;
+  const [r, g, bl, alpha] = a.map((value, i) => value + (b[i] - value) * progress);
+  return `rgba(${Math.round(r)}, ${Math.round(g)}, ${Math.round(bl)}, ${Math.round(alpha * 1000) / 1000})`;
+};
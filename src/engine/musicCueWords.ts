@@ -0,0 +1,22 @@
+import type { SyncEvent, Word } from '../types';
+import { MUSIC_NOTE, getMusicCueText } from '../utils/musicCue';
+
+// 설명 글자는 ♪ 보다 약간 흐리게
+const DESCRIPTION_OPACITY = 0.85;
+
+// music_cue 이벤트의 표시용 단어 ("♪", "[soft", "piano]", "♪")
+// 이벤트 구간 전체 동안 발화 중 상태로, 색상은 흰색 (화자 레지스트리 색상이 있으면 그 색상)
+export const createMusicCueWords = (event: SyncEvent): Word[] => {
+  const { start, end } = event.pre_reading;
+  return getMusicCueText(event).split(' ').map((text, wordIndex) => ({
+    word: text,
+    word_index: wordIndex,
+    start,
+    end,
+    pronunciation_start: start,
+    color_transition: { from_color: '&H00FFFFFF', to_color: '&H00FFFFFF', duration_ms: 0 },
+    font_adjustments: { size_percent: 5, weight: 400, width: 100 },
+    animation_type: 'normal',
+    animation_config: { opacity: text === MUSIC_NOTE ? 1 : DESCRIPTION_OPACITY }
+  }));
+};
@@ -0,0 +1,52 @@
+import type { AvoidRegion, CaptionPlacementHint, LayoutSettings, NormalizedRect } from '../types';
+
+export type StackAnchor = 'bottom' | 'top';
+
+// 가로 범위 (화면 비율)
+export interface HorizontalSpan {
+  left: number;
+  right: number;
+}
+
+export const isPlacementRect = (placement: CaptionPlacementHint | undefined): placement is NormalizedRect =>
+  typeof placement === 'object' && placement !== null;
+
+export const getActiveAvoidRegions = (regions: AvoidRegion[], time: number): NormalizedRect[] =>
+  regions.filter(region => time >= region.start && time <= region.end).map(region => region.rect);
+
+// work_area 가로 범위 (getWorkAreaStyle 과 같은 기본값)
+export const getWorkAreaSpan = (layout: LayoutSettings | undefined): HorizontalSpan => {
+  const margins = layout?.work_area?.safety_margins;
+  return {
+    left: margins?.left_percent || 0.05,
+    right: 1 - (margins?.right_percent || 0.05)
+  };
+};
+
+// 세로 범위 [top, bottom] 이 회피 영역과 겹치는지 (경계만 닿는 경우는 제외)
+const findOverlap = (top: number, bottom: number, span: HorizontalSpan, regions: NormalizedRect[]) =>
+  regions.find(region =>
+    region.x < span.right && region.x + region.width > span.left &&
+    region.y < bottom && region.y + region.height > top
+  );
+
+// 박스 묶음(높이 height)을 anchor 가장자리에서 offset 만큼 띄워 회피 영역과 겹치지 않는 offset 계산
+// 겹치면 영역 너머로 밀어내고, 화면을 벗어나면 null
+export const resolveStackOffset = (
+  anchor: StackAnchor,
+  baseOffset: number,
+  height: number,
+  span: HorizontalSpan,
+  regions: NormalizedRect[]
+): number | null => {
+  let offset = baseOffset;
+  // 영역마다 최대 한 번씩 밀어냄
+  for (let i = 0; i <= regions.length; i++) {
+    if (offset + height > 1) return null;
+    const top = anchor === 'bottom' ? 1 - offset - height : offset;
+    const overlap = findOverlap(top, top + height, span, regions);
+    if (!overlap) return offset;
+    offset = anchor === 'bottom' ? 1 - overlap.y : overlap.y + overlap.height;
+  }
+  return null;
+};
@@ -0,0 +1,108 @@
+import type { CaptionPreferences, LayoutSettings, Word } from '../types';
+import { assColorToCss, cssColorToAss } from '../utils';
+import { BOUNCING_DEFAULTS } from './builtinAnimations';
+import { parseCssColor } from './motion';
+
+const DEFAULT_BOX_BACKGROUND = '#000000';
+export const HIGH_CONTRAST_PRE_READING_COLOR = '#FFFFFF';
+
+// WCAG AAA 본문 대비 (검정 배경 기준)
+const MIN_CONTRAST_RATIO = 7;
+
+const scaleAround = (value: number, base: number, intensity: number) => base + (value - base) * intensity;
+
+// 움직임 세기 (effectIntensity / 100) 적용: bounce 범위, elevation position_y / 확대, loud 글자 크기 증가분
+// 0 이면 움직임 없이 데이터의 기본 크기로 표시
+export const applyEffectIntensity = (word: Word, intensity: number, layout: LayoutSettings | undefined): Word => {
+  if (intensity >= 1) return word;
+  const result: Word = { ...word };
+
+  if (word.bouncing_animation) {
+    result.bouncing_animation = {
+      ...word.bouncing_animation,
+      min_height_percent: word.bouncing_animation.min_height_percent * intensity,
+      max_height_percent: word.bouncing_animation.max_height_percent * intensity,
+      scale_increase_percent: (word.bouncing_animation.scale_increase_percent || 0) * intensity
+    };
+  }
+  // legacy loud_voice: 기준 크기 5% 대비 증가분
+  if (!word.animation_type && word.special_effects?.loud_voice) {
+    result.font_adjustments = {
+      ...word.font_adjustments,
+      size_percent: scaleAround(word.font_adjustments.size_percent, 5, intensity)
+    };
+  }
+
+  const config = word.animation_config;
+  if (!config) return result;
+  switch (word.animation_type) {
+    case 'bouncing':
+      result.animation_config = {
+        ...config,
+        scale_percent: scaleAround(config.scale_percent || BOUNCING_DEFAULTS.scale_percent, 100, intensity),
+        wave_height_range: {
+          min: (config.wave_height_range?.min ?? BOUNCING_DEFAULTS.min_height_percent) * intensity,
+          max: (config.wave_height_range?.max ?? BOUNCING_DEFAULTS.max_height_percent) * intensity
+        }
+      };
+      break;
+    case 'elevation':
+      result.animation_config = {
+        ...config,
+        position_y: (config.position_y || 0) * intensity,
+        scale_percent: scaleAround(config.scale_percent || 100, 100, intensity),
+        trembling: Boolean(config.trembling) && intensity > 0
+      };
+      break;
+    case 'loud': {
+      const baseline = layout?.caption_box_style?.baseline_font_size_percent ?? 4.5;
+      if (config.font_size_percent) {
+        result.animation_config = { ...config, font_size_percent: scaleAround(config.font_size_percent, baseline, intensity) };
+      }
+      break;
+    }
+  }
+  return result;
+};
+
+const getRelativeLuminance = ([r, g, b]: number[]) => {
+  const [lr, lg, lb] = [r, g, b].map(value => {
+    const channel = value / 255;
+    return channel <= 0.03928 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+  });
+  return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+};
+
+const toHex = (rgb: number[]) => `#${rgb.map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
+// 검정 배경 대비 7:1 이상이 되도록 흰색 쪽으로 밝힘 (화자 색상의 색조는 유지)
+export const getHighContrastColor = (cssColor: string): string => {
+  const parsed = parseCssColor(cssColor);
+  if (!parsed) return HIGH_CONTRAST_PRE_READING_COLOR;
+  const rgb = parsed.slice(0, 3);
+  for (let step = 0; step <= 10; step++) {
+    const mixed = rgb.map(value => value + (255 - value) * (step / 10));
+    if ((getRelativeLuminance(mixed) + 0.05) / 0.05 >= MIN_CONTRAST_RATIO) return toHex(mixed);
+  }
+  return '#FFFFFF';
+};
+
+// 고대비: 발화 색상 (GSAP 색상 전환도 같은 색) 을 밝히고 발화 전 색상은 흰색
+export const applyHighContrast = (word: Word): Word => ({
+  ...word,
+  color_transition: {
+    ...word.color_transition,
+    from_color: cssColorToAss(HIGH_CONTRAST_PRE_READING_COLOR),
+    to_color: cssColorToAss(getHighContrastColor(assColorToCss(word.color_transition.to_color)))
+  }
+});
+
+// 캡션 박스 배경: 고대비는 불투명 검정, 아니면 설정 색상 / 불투명도 (없으면 caption_box_style)
+export const getBoxBackgroundColor = (layout: LayoutSettings | undefined, preferences: CaptionPreferences): string => {
+  const opacity = preferences.highContrast
+    ? 100
+    : preferences.backgroundOpacity ?? layout?.caption_box_style?.background_opacity ?? 90;
+  const color = preferences.highContrast ? DEFAULT_BOX_BACKGROUND : preferences.backgroundColor ?? DEFAULT_BOX_BACKGROUND;
+  const [r, g, b] = parseCssColor(color) ?? [0, 0, 0];
+  return `rgba(${r}, ${g}, ${b}, ${opacity / 100})`;
+};
@@ -0,0 +1,80 @@
+import type { CaptionViewport, LayoutSettings, Word } from '../types';
+import { estimateTextWidth, TextMeasurementService } from './measurement';
+import { getWordMeasureFont } from './wordStyle';
+
+// 단어 span 좌우 margin (0 2px) / 문장 flex gap (4px)
+const WORD_MARGIN_PX = 4;
+const WORD_GAP_PX = 4;
+
+// 측정기를 넘기지 않은 호출용 (canvas 없이 근사치)
+let estimateMeasurement: TextMeasurementService | null = null;
+const getEstimateMeasurement = () => (estimateMeasurement ??= new TextMeasurementService(estimateTextWidth));
+
+// Work area / caption box padding을 고려한 caption box 최대 너비 (px)
+export const getCaptionBoxMaxWidth = (layout: LayoutSettings | undefined, viewport: CaptionViewport): number => {
+  const safetyMargins = layout?.work_area?.safety_margins;
+  // Work area의 실제 너비 계산 (left/right margin 고려)
+  const workAreaWidthPercent = safetyMargins
+    ? (100 - ((safetyMargins.left_percent ?? 0.05) * 100) - ((safetyMargins.right_percent ?? 0.05) * 100))
+    : 90;
+  const workAreaWidth = viewport.width * (workAreaWidthPercent / 100);
+
+  // Caption box padding 계산 (양쪽, 박스 스타일과 같이 viewport 너비 기준)
+  const horizontalPadding = layout?.caption_box_style?.padding?.horizontal_percent ?? 3.5;
+  const captionBoxPadding = viewport.width * (horizontalPadding / 100) * 2;
+
+  return workAreaWidth - captionBoxPadding;
+};
+
+// 단어들을 caption box 너비에 맞는 세그먼트(한 줄)로 분할
+// 단어 폭은 실제 렌더링 폰트(크기 / wght / wdth)로 측정, reservedWidth는 화자 이름표 등 같은 줄의 다른 요소 폭
+// textScale 은 시청자 글자 크기 배율, reducedMotion 은 움직임 줄이기 (굵기 / 폭 강조로 넓어짐)
+export const splitIntoSegments = (
+  words: Word[],
+  layout: LayoutSettings | undefined,
+  viewport: CaptionViewport,
+  measurement: TextMeasurementService = getEstimateMeasurement(),
+  reservedWidth = 0,
+  textScale = 1,
+  reducedMotion = false
+): Word[][] => {
+  const captionBoxMaxWidth = getCaptionBoxMaxWidth(layout, viewport) - reservedWidth;
+  const segments: Word[][] = [];
+  let currentSegment: Word[] = [];
+  let segmentWidth = 0;
+
+  for (const word of words) {
+    const wordWidth = measurement.measure(word.word, getWordMeasureFont(word, layout, viewport, textScale, reducedMotion)) + WORD_MARGIN_PX;
+    const nextWidth = currentSegment.length > 0 ? segmentWidth + WORD_GAP_PX + wordWidth : wordWidth;
+    if (currentSegment.length === 0 || nextWidth <= captionBoxMaxWidth) {
+      currentSegment.push(word);
+      segmentWidth = nextWidth;
+    } else {
+      // 현재 세그먼트 저장하고 새 세그먼트 시작 (한 단어가 너비를 넘으면 단독 세그먼트)
+      segments.push(currentSegment);
+      currentSegment = [word];
+      segmentWidth = wordWidth;
+    }
+  }
+  // 마지막 세그먼트 추가
+  if (currentSegment.length > 0) {
+    segments.push(currentSegment);
+  }
+
+  return segments;
+};
+
+const isWordActive = (word: Word, time: number) => time >= word.start && time <= word.end;
+
+// 현재 표시할 세그먼트 인덱스 결정 (시간만으로 정해짐, seek 해도 연속 재생과 같은 세그먼트)
+// 발화 중인 단어가 있으면 그 세그먼트, 단어 사이 공백이면 마지막으로 시작된 세그먼트 (첫 단어 전이면 첫 세그먼트)
+export const selectSegmentIndex = (segments: Word[][], adjustedTime: number): number => {
+  const activeIndex = segments.findIndex(segment => segment.some(word => isWordActive(word, adjustedTime)));
+  if (activeIndex !== -1) return activeIndex;
+
+  let startedIndex = 0;
+  segments.forEach((segment, index) => {
+    if (segment[0] && segment[0].start <= adjustedTime) startedIndex = index;
+  });
+  return startedIndex;
+};
@@ -0,0 +1,33 @@
+import type { LayoutSettings, SyncEvent, Word } from '../types';
+import { SOUND_CATEGORY_ICONS, getSoundEventText, getSoundSizeRatio } from '../utils/soundEvent';
+
+const AMBIENT_OPACITY = 0.85;
+
+// sound 이벤트의 표시용 단어 (아이콘, "[door", "slams]")
+// 이벤트 구간 전체 동안 발화 중 상태, 크기 / 굵기는 intensity 에 비례
+export const createSoundEventWords = (event: SyncEvent, layout: LayoutSettings | undefined): Word[] => {
+  const { start, end } = event.pre_reading;
+  const category = event.sound?.category ?? 'ambient';
+  const intensity = Math.max(0, Math.min(1, event.sound?.intensity ?? 0.5));
+  const baseline = layout?.caption_box_style?.baseline_font_size_percent ?? 4.5;
+  const sizePercent = baseline * getSoundSizeRatio(intensity);
+  const weight = Math.round(400 + 300 * intensity);
+
+  return [SOUND_CATEGORY_ICONS[category], ...getSoundEventText(event).split(' ')].map((text, wordIndex) => ({
+    word: text,
+    word_index: wordIndex,
+    start,
+    end,
+    pronunciation_start: start,
+    color_transition: { from_color: '&H00FFFFFF', to_color: '&H00FFFFFF', duration_ms: 0 },
+    font_adjustments: { size_percent: sizePercent, weight, width: 100 },
+    animation_type: 'sound',
+    animation_config: {
+      font_size_percent: sizePercent,
+      font_weight: weight,
+      sound_category: category,
+      intensity,
+      opacity: category === 'ambient' ? AMBIENT_OPACITY : 1
+    }
+  }));
+};
@@ -0,0 +1,80 @@
+import type { CaptionSpeakerFrame, CaptionStyle, SpeakerInfo, SpeakerPlacement, SpeakerRegistry, SyncEvent, Word } from '../types';
+import { assColorToCss, cssColorToAss } from '../utils';
+import { isSpeechEvent } from '../utils/soundEvent';
+
+const isAssColor = (color: string) => /^&H/i.test(color.trim());
+
+// 레지스트리 색상 (CSS hex 또는 ASS) → CSS
+export const speakerColorToCss = (color: string): string =>
+  isAssColor(color) ? assColorToCss(color.trim()) : color.trim();
+
+// 레지스트리 색상 (CSS hex 또는 ASS) → ASS (color_transition 형식)
+export const speakerColorToAss = (color: string): string =>
+  isAssColor(color) ? color.trim().toUpperCase() : cssColorToAss(color);
+
+// timingSyncData.speakers 위에 prop override를 화자별로 병합
+export const mergeSpeakerRegistry = (base: SpeakerRegistry = {}, override: SpeakerRegistry = {}): SpeakerRegistry => {
+  const merged: SpeakerRegistry = { ...base };
+  for (const [speakerId, info] of Object.entries(override)) {
+    const baseInfo = base[speakerId];
+    merged[speakerId] = {
+      ...baseInfo,
+      ...info,
+      ...((baseInfo?.colors || info.colors) && { colors: { ...baseInfo?.colors, ...info.colors } })
+    };
+  }
+  return merged;
+};
+
+// 화자 발화 색상을 단어의 color_transition.to_color 에 적용 (GSAP 색상 전환도 같은 색을 사용)
+export const applySpeakerColor = (word: Word, info: SpeakerInfo | undefined): Word => {
+  const text = info?.colors?.text;
+  if (!text) return word;
+  return {
+    ...word,
+    color_transition: { ...word.color_transition, to_color: speakerColorToAss(text) }
+  };
+};
+
+// 캡션 박스 가로 위치 (work area 기준)
+export const getPlacementStyle = (placement: SpeakerPlacement): CaptionStyle => {
+  switch (placement) {
+    case 'left':
+      return { left: 0, right: 'auto', transform: 'none' };
+    case 'right':
+      return { left: 'auto', right: 0, transform: 'none' };
+    default:
+      return { left: '50%', right: 'auto', transform: 'translateX(-50%)' };
+  }
+};
+
+export const resolveSpeakerFrame = (event: SyncEvent, info: SpeakerInfo | undefined): CaptionSpeakerFrame => {
+  // 레지스트리에 색상이 없으면 첫 단어의 발화 색상 (ASS Character_* 스타일과 동일)
+  const fallbackColor = event.active_speech_words[0]?.color_transition.to_color;
+  const accent = info?.colors?.accent ?? info?.colors?.text;
+  const color = accent
+    ? speakerColorToCss(accent)
+    : fallbackColor ? assColorToCss(fallbackColor) : '#FFFFFF';
+
+  return {
+    speakerId: event.speaker_id,
+    displayName: info?.display_name ?? event.speaker_id,
+    color,
+    avatarUrl: info?.avatar_url,
+    icon: info?.icon,
+    // 효과음은 화자 위치 대신 소리 방향, 음악 / 효과음은 화자 라벨 없음
+    placement: event.sound ? event.sound.direction ?? 'center' : info?.placement ?? 'center',
+    showLabel: isSpeechEvent(event) && Boolean(info?.display_name || info?.avatar_url || info?.icon),
+    labelStyle: {
+      display: 'inline-flex',
+      alignItems: 'center',
+      alignSelf: 'center',
+      gap: '0.3em',
+      marginRight: '0.5em',
+      color,
+      fontSize: '0.6em',
+      fontWeight: 600,
+      whiteSpace: 'nowrap'
+    }
+  };
+};
@@ -0,0 +1,450 @@
+import type {
+  AnimationEffect,
+  AnimationPlugin,
+  CaptionEffectClock,
+  CaptionStyle,
+  CaptionUnderline,
+  CaptionViewport,
+  CharacterFrame,
+  CharacterTiming,
+  LayoutSettings,
+  TextMeasureFont,
+  Word,
+  WordFrame,
+  WordVisual
+} from '../types';
+import { assColorToCss } from '../utils';
+import { animationRegistry } from './animationRegistry';
+import { getReducedMotionEmphasis } from './builtinAnimations';
+import {
+  EASE_STANDARD,
+  getCharacterWaveOffset,
+  getColorTransitionProgress,
+  getTransitionProgress,
+  mixCssColors
+} from './motion';
+
+export const CAPTION_FONT_FAMILY = '"Roboto Flex Variable", "Roboto Flex", sans-serif';
+export const PRE_READING_COLOR = 'rgba(255, 255, 255, 0.9)';
+
+export interface WordStyleContext {
+  key: string;
+  adjustedTime: number;
+  viewport: CaptionViewport;
+  layout: LayoutSettings | undefined;
+  elevationOffset: number;      // elevation_effects 로 계산된 상승량 (px, 위쪽이 양수)
+  isCurrentlyActive: boolean;   // CurrentEvents.activeWords 에 포함된 단어인지
+  preReadingColor?: string;     // 화자별 발화 전 색상 (기본 PRE_READING_COLOR)
+  textScale?: number;           // 시청자 글자 크기 배율 (기본 1)
+  reducedMotion?: boolean;      // 움직임 줄이기 (이동 / 웨이브 / 떨림 대신 굵기 / 폭 / 밑줄)
+  effectClock?: CaptionEffectClock; // 기본 'media': 플러그인 cssAnimation 대신 같은 곡선의 현재 값을 transform 으로
+}
+
+// 글자 색상 전환 시점: bouncing이면 글자별 peak_time, 아니면 pronunciation_start
+export const getCharacterColorTransitionTime = (word: Word, charIndex: number): number => {
+  const charTiming = word.bouncing_animation?.character_timings?.[charIndex];
+  return charTiming?.peak_time ?? (word.pronunciation_start || word.start);
+};
+
+// 발화된 글자의 time 시점 색상: from_color → to_color 전환 곡선 (DOM / canvas 공통, 재생 이력과 무관)
+export const getCharacterTransitionColor = (word: Word, charIndex: number, time: number): string =>
+  mixCssColors(
+    assColorToCss(word.color_transition.from_color),
+    assColorToCss(word.color_transition.to_color),
+    getColorTransitionProgress(getCharacterColorTransitionTime(word, charIndex), word.color_transition.duration_ms, time)
+  );
+
+// 세그먼트 분할용 단어 폰트 설정: 발화 중 커지는 크기 / 굵기까지 고려한 최대값 (resolveWordFrame 과 같은 규칙)
+export const getWordMeasureFont = (
+  word: Word,
+  layout: LayoutSettings | undefined,
+  viewport: CaptionViewport,
+  textScale = 1,
+  reducedMotion = false
+): TextMeasureFont => {
+  const unit = (viewport.height / 100) * textScale;
+  let sizePx: number;
+  let weight = word.font_adjustments.weight;
+  let width = word.font_adjustments.width || 100;
+
+  if (word.animation_type && word.animation_config) {
+    // 발화 중간 시점의 플러그인 결과로 최대 크기 / 굵기 / 폭 추정
+    const plugin = animationRegistry.resolve(word.animation_type);
+    const effect = animateWord(plugin, plugin.prepareWord?.(word) ?? word, undefined, 0.5, viewport, reducedMotion);
+    sizePx = (layout?.caption_box_style?.baseline_font_size_percent ?? 4.5) * unit;
+    if (effect.fontSize) sizePx = Math.max(sizePx, effect.fontSize * textScale);
+    if (effect.fontWeight) weight = Math.max(weight, effect.fontWeight);
+    if (effect.fontWidth) width = Math.max(width, effect.fontWidth);
+  } else {
+    sizePx = 5 * unit;
+    if (word.special_effects?.loud_voice || word.special_effects?.whisper_voice) {
+      sizePx = Math.max(sizePx, word.font_adjustments.size_percent * unit);
+    }
+    if (word.special_effects?.loud_voice) weight = Math.max(weight, 700); // bold
+    else if (reducedMotion && word.bouncing_animation) {
+      const emphasis = getReducedMotionEmphasis(word);
+      weight = Math.max(weight, emphasis.fontWeight ?? weight);
+      width = Math.max(width, emphasis.fontWidth ?? width);
+    }
+  }
+
+  return { family: CAPTION_FONT_FAMILY, sizePx, weight, width };
+};
+
+// 플러그인 결과. 움직임 줄이기에서는 reducedMotion 결과 (없으면 animate 결과)에서 이동 / CSS 애니메이션을 뺀 값
+const animateWord = (
+  plugin: AnimationPlugin,
+  word: Word,
+  charTiming: CharacterTiming | undefined,
+  progress: number,
+  viewport: CaptionViewport,
+  reducedMotion: boolean
+): AnimationEffect => {
+  if (!reducedMotion) return plugin.animate(word, charTiming, progress, viewport);
+  const effect = plugin.reducedMotion?.(word, progress, viewport) ?? plugin.animate(word, charTiming, progress, viewport);
+  return { ...effect, translateX: undefined, translateY: undefined, cssAnimation: undefined, cssVariables: undefined };
+};
+
+// 발화 시작 / 끝의 단어 전환 시간 (초)
+const WORD_TRANSITION_SECONDS = 0.3;
+
+const lerp = (from: number, to: number, progress: number) => from + (to - from) * progress;
+
+// 두 플러그인 결과 사이의 전환 (수치 값만 보간, 나머지는 to)
+const blendEffects = (from: AnimationEffect, to: AnimationEffect, progress: number, defaults: Required<Pick<AnimationEffect, 'fontSize' | 'fontWeight' | 'fontWidth'>>): AnimationEffect => {
+  const blend = (key: 'fontSize' | 'fontWeight' | 'fontWidth' | 'opacity' | 'translateX' | 'translateY' | 'scale' | 'blur' | 'brightness', fallback: number) =>
+    from[key] === undefined && to[key] === undefined ? undefined : lerp(from[key] ?? fallback, to[key] ?? fallback, progress);
+  return {
+    ...to,
+    fontSize: blend('fontSize', defaults.fontSize),
+    fontWeight: blend('fontWeight', defaults.fontWeight),
+    fontWidth: blend('fontWidth', defaults.fontWidth),
+    opacity: blend('opacity', 1),
+    translateX: blend('translateX', 0),
+    translateY: blend('translateY', 0),
+    scale: blend('scale', 1),
+    blur: blend('blur', 0),
+    brightness: blend('brightness', 1)
+  };
+};
+
+// 밑줄 스타일 (글자 단위 렌더링이면 글자 span 이 inherit 로 이어받음)
+const getUnderlineStyle = (underline: CaptionUnderline | undefined): CaptionStyle =>
+  underline
+    ? { textDecoration: underline === 'wavy' ? 'underline wavy' : 'underline', textUnderlineOffset: '0.15em' }
+    : {};
+
+// 시간 → 구간 진행률 (0 = 시작, 1 = 끝, 구간 밖이면 0 미만 / 1 초과)
+export const getTimeProgress = (time: number, start: number, end: number): number => {
+  const duration = end - start;
+  if (duration <= 0) return time < start ? -1 : time > end ? 2 : 0;
+  return (time - start) / duration;
+};
+
+// 글자 타이밍: bouncing character_timings, 없으면 단어 발화 구간
+export const getCharacterTiming = (word: Word, charIndex: number): CharacterTiming =>
+  word.bouncing_animation?.character_timings?.[charIndex] ?? {
+    character: word.word[charIndex] ?? '',
+    char_index: charIndex,
+    start_time: word.start,
+    end_time: word.end,
+    relative_delay: 0
+  };
+
+// 플러그인 결과의 CSS transform / filter
+const getEffectTransform = (effect: AnimationEffect): string => {
+  const parts: string[] = [];
+  if (effect.translateX !== undefined) parts.push(`translate(${effect.translateX}px, ${effect.translateY ?? 0}px)`);
+  else if (effect.translateY !== undefined) parts.push(`translateY(${effect.translateY}px)`);
+  if (effect.scale !== undefined) parts.push(`scale(${effect.scale})`);
+  return parts.join(' ');
+};
+
+const getEffectFilter = (effect: AnimationEffect): string =>
+  [
+    effect.blur ? `blur(${effect.blur}px)` : '',
+    effect.brightness ? `brightness(${effect.brightness})` : ''
+  ].filter(Boolean).join(' ');
+
+// 글자 단위 움직임 (발화된 글자만): 플러그인 결과 중 translate / scale 만 사용
+type CharacterMotion = (charIndex: number) => Pick<AnimationEffect, 'translateX' | 'translateY' | 'scale'>;
+
+const resolveCharacters = (
+  word: Word,
+  pronounced: boolean,
+  adjustedTime: number,
+  preReadingColor: string,
+  getMotion: CharacterMotion
+): CharacterFrame[] =>
+  word.word.split('').map((char, charIndex) => {
+    let color = preReadingColor;
+    if (pronounced) {
+      color = adjustedTime >= getCharacterColorTransitionTime(word, charIndex)
+        ? assColorToCss(word.color_transition.to_color)
+        : assColorToCss(word.color_transition.from_color);
+    }
+    const motion = pronounced ? getMotion(charIndex) : {};
+    return {
+      char,
+      charIndex,
+      pronounced,
+      color,
+      offsetX: motion.translateX ?? 0,
+      offsetY: motion.translateY ?? 0,
+      scale: motion.scale ?? 1
+    };
+  });
+
+const createVisual = (word: Word, fontSize: number, color: string, overrides: Partial<WordVisual> = {}): WordVisual => ({
+  fontSize,
+  fontWeight: word.font_adjustments.weight,
+  fontWidth: word.font_adjustments.width,
+  color,
+  opacity: 1,
+  offsetX: 0,
+  offsetY: 0,
+  scale: 1,
+  blur: 0,
+  brightness: 1,
+  ...overrides
+});
+
+// 단어 하나의 현재 시간 기준 스타일 결정 (animation_type 기반 / legacy special_effects 기반)
+export const resolveWordFrame = (wordData: Word, context: WordStyleContext): WordFrame => {
+  const {
+    key,
+    adjustedTime,
+    viewport,
+    layout,
+    isCurrentlyActive,
+    preReadingColor = PRE_READING_COLOR,
+    textScale = 1,
+    reducedMotion = false,
+    effectClock = 'media'
+  } = context;
+  // 움직임 줄이기: elevation_effects 상승은 이동 대신 밑줄
+  const elevationOffset = reducedMotion ? 0 : context.elevationOffset;
+  const elevationUnderline: CaptionUnderline | undefined = reducedMotion && context.elevationOffset ? 'solid' : undefined;
+  const elevationTransform = elevationOffset ? `translateY(${-elevationOffset}px)` : '';
+  const hasBeenPronounced = adjustedTime >= wordData.start;
+  const isCurrentlyBeingPronounced = adjustedTime >= wordData.start && adjustedTime <= wordData.end;
+  const phase = isCurrentlyBeingPronounced ? 'active' : hasBeenPronounced ? 'spoken' : 'pre_reading';
+
+  // Use new animation registry if available
+  if (wordData.animation_type && wordData.animation_config) {
+    const plugin = animationRegistry.resolve(wordData.animation_type);
+    const word = plugin.prepareWord?.(wordData) ?? wordData;
+    let wordColor = hasBeenPronounced
+      ? assColorToCss(wordData.color_transition.to_color)
+      : preReadingColor;
+
+    const baselineSize = (layout?.caption_box_style?.baseline_font_size_percent ?? 4.5) * (viewport.height / 100);
+    let effect = animateWord(plugin, word, undefined, getTimeProgress(adjustedTime, word.start, word.end), viewport, reducedMotion);
+
+    // 단어 단위 렌더링의 발화 시작 / 끝 전환 (CSS transition 과 같은 곡선, 비디오 시간 기준)
+    // 시작: 발화 전 상태에서 0.3초 동안 (움직임 줄이기에서는 색상만), 끝: 글자 크기만 기준 크기로
+    if (!plugin.perCharacter) {
+      const defaults = { fontSize: baselineSize, fontWeight: wordData.font_adjustments.weight, fontWidth: wordData.font_adjustments.width };
+      if (isCurrentlyBeingPronounced) {
+        const entry = getTransitionProgress(word.start, WORD_TRANSITION_SECONDS, adjustedTime);
+        if (entry < 1) {
+          wordColor = mixCssColors(preReadingColor, wordColor, entry);
+          if (!reducedMotion) effect = blendEffects(animateWord(plugin, word, undefined, -1, viewport, false), effect, entry, defaults);
+        }
+      } else if (hasBeenPronounced && !reducedMotion) {
+        const exit = getTransitionProgress(word.end, WORD_TRANSITION_SECONDS, adjustedTime, EASE_STANDARD);
+        if (exit < 1) {
+          const activeSize = animateWord(plugin, word, undefined, 1, viewport, false).fontSize ?? baselineSize;
+          effect = { ...effect, fontSize: lerp(activeSize, effect.fontSize ?? baselineSize, exit) };
+        }
+      }
+    }
+    // media 시계: CSS 키프레임 (벽시계) 대신 미디어 시간으로 계산한 translate / scale 을 transform 으로 적용
+    if (effectClock === 'media') effect = { ...effect, cssAnimation: undefined };
+    const fontSize = (effect.fontSize ?? baselineSize) * textScale;
+    const fontWeight = effect.fontWeight ?? wordData.font_adjustments.weight;
+    const fontWidth = effect.fontWidth ?? wordData.font_adjustments.width;
+    const underline = effect.underline ?? elevationUnderline;
+    const visual = createVisual(wordData, fontSize, wordColor, {
+      fontWeight,
+      fontWidth,
+      underline,
+      opacity: effect.opacity ?? 1,
+      offsetX: effect.translateX ?? 0,
+      offsetY: -elevationOffset + (effect.translateY ?? 0),
+      scale: effect.scale ?? 1,
+      blur: effect.blur ?? 0,
+      brightness: effect.brightness ?? 1,
+      textShadow: effect.textShadow
+    });
+    // cssAnimation 이 있으면 움직임은 CSS 애니메이션이 담당 (visual 에는 같은 곡선의 현재 값)
+    const transform = effect.cssAnimation ? '' : getEffectTransform(effect);
+    const filter = getEffectFilter(effect);
+
+    // Handle bouncing animation with character-by-character rendering
+    if (plugin.perCharacter) {
+      return {
+        key,
+        word,
+        phase,
+        renderMode: 'characters',
+        characters: resolveCharacters(word, hasBeenPronounced, adjustedTime, preReadingColor, charIndex => {
+          if (reducedMotion) return {};
+          const charTiming = getCharacterTiming(word, charIndex);
+          return plugin.animate(word, charTiming, getTimeProgress(adjustedTime, charTiming.start_time, charTiming.end_time), viewport);
+        }),
+        visual,
+        style: {
+          fontSize: `${fontSize}px`,
+          fontWeight,
+          fontFamily: CAPTION_FONT_FAMILY,
+          fontVariationSettings: `"wdth" ${fontWidth}, "wght" ${fontWeight}`,
+          display: 'inline-block',
+          textAlign: 'center',
+          margin: '0 2px',
+          verticalAlign: 'baseline',
+          transformOrigin: 'bottom',
+          transform: [elevationTransform, transform].filter(Boolean).join(' ') || undefined,
+          ...(effect.opacity !== undefined && { opacity: effect.opacity }),
+          ...(filter && { filter }),
+          ...(effect.cssAnimation && { animation: effect.cssAnimation }),
+          ...(effect.textShadow && { textShadow: effect.textShadow }),
+          ...getUnderlineStyle(underline),
+          ...effect.cssVariables
+        }
+      };
+    }
+
+    return {
+      key,
+      word,
+      phase,
+      renderMode: 'word',
+      visual,
+      style: {
+        color: wordColor,
+        fontSize: `${fontSize}px`,
+        fontWeight: fontWeight,
+        fontFamily: CAPTION_FONT_FAMILY,
+        fontVariationSettings: `"wdth" ${fontWidth}, "wght" ${fontWeight}`,
+        display: 'inline-block',
+        margin: '0 2px',
+        transform: [elevationTransform, transform].filter(Boolean).join(' '),
+        opacity: effect.opacity ?? 1,
+        filter,
+        animation: effect.cssAnimation ?? '',
+        textShadow: effect.textShadow || undefined,
+        transformOrigin: 'center bottom',
+        ...getUnderlineStyle(underline),
+        ...effect.cssVariables
+      }
+    };
+  }
+
+  // Fallback to legacy animation system
+  const shouldAnimate = isCurrentlyActive && wordData.bouncing_animation && isCurrentlyBeingPronounced;
+
+  // 색상 결정: 발음된 단어는 캐릭터 색상, 아직 발음되지 않은 단어는 반투명 흰색
+  const wordColor = hasBeenPronounced
+    ? assColorToCss(wordData.color_transition.to_color)
+    : preReadingColor; // Pre-reading: 90% opacity white
+
+  // 폰트 크기 결정
+  const baselineSize = 5 * (viewport.height / 100) * textScale;
+  let currentFontSize = baselineSize;
+
+  if (isCurrentlyBeingPronounced && (wordData.special_effects?.loud_voice || wordData.special_effects?.whisper_voice)) {
+    currentFontSize = wordData.font_adjustments.size_percent * (viewport.height / 100) * textScale;
+  }
+
+  // Special effects가 있는 단어는 발음 중일 때만 효과 적용
+  if (isCurrentlyBeingPronounced && (wordData.special_effects?.loud_voice || wordData.special_effects?.whisper_voice)) {
+    // 발화 시작 전환: 색상은 duration_ms, 확대 300ms, 크기 150ms (움직임 줄이기에서는 색상만)
+    const colorProgress = getTransitionProgress(wordData.start, wordData.color_transition.duration_ms / 1000, adjustedTime, EASE_STANDARD);
+    const entryColor = mixCssColors(preReadingColor, wordColor, colorProgress);
+    if (!reducedMotion) {
+      currentFontSize = lerp(baselineSize, currentFontSize, getTransitionProgress(wordData.start, 0.15, adjustedTime, EASE_STANDARD));
+    }
+    const targetScale = shouldAnimate && wordData.bouncing_animation ? (100 + (wordData.bouncing_animation.scale_increase_percent || 0)) / 100 : 1;
+    const scale = reducedMotion ? targetScale : lerp(1, targetScale, getTransitionProgress(wordData.start, WORD_TRANSITION_SECONDS, adjustedTime, EASE_STANDARD));
+    return {
+      key,
+      word: wordData,
+      phase,
+      renderMode: 'word',
+      visual: createVisual(wordData, currentFontSize, entryColor, {
+        offsetY: -elevationOffset,
+        scale,
+        underline: elevationUnderline,
+        ...(wordData.special_effects?.loud_voice && {
+          fontWeight: 700,
+          textShadow: '0 0 4px rgba(255, 255, 255, 0.3)',
+          brightness: 1.1
+        }),
+        ...(wordData.special_effects?.whisper_voice && {
+          opacity: 0.8,
+          blur: 0.5,
+          fontWeight: Math.max(300, wordData.font_adjustments.weight)
+        })
+      }),
+      style: {
+        color: entryColor,
+        fontSize: `${currentFontSize}px`,
+        fontWeight: wordData.font_adjustments.weight,
+        fontFamily: CAPTION_FONT_FAMILY,
+        fontVariationSettings: `"wdth" ${wordData.font_adjustments.width}, "wght" ${wordData.font_adjustments.weight}`,
+        transform: `${elevationTransform} scale(${scale})`.trim(),
+        display: 'inline-block',
+        textAlign: 'center',
+        margin: '0 2px',
+        verticalAlign: 'baseline',
+        transformOrigin: 'bottom',
+        // Special Effects
+        ...(wordData.special_effects?.loud_voice && {
+          fontWeight: 'bold',
+          textShadow: '0 0 4px rgba(255, 255, 255, 0.3)',
+          filter: 'brightness(1.1)'
+        }),
+        ...(wordData.special_effects?.whisper_voice && {
+          opacity: 0.8,
+          filter: 'blur(0.5px)',
+          fontWeight: Math.max(300, wordData.font_adjustments.weight)
+        }),
+        ...getUnderlineStyle(elevationUnderline)
+      }
+    };
+  }
+
+  // 일반 단어는 글자별 bouncing 적용 (움직임 줄이기에서는 발화 중 굵고 넓은 글자)
+  const emphasis = reducedMotion && shouldAnimate ? getReducedMotionEmphasis(wordData) : {};
+  const fontWeight = emphasis.fontWeight ?? wordData.font_adjustments.weight;
+  const fontWidth = emphasis.fontWidth ?? wordData.font_adjustments.width;
+  return {
+    key,
+    word: wordData,
+    phase,
+    renderMode: 'characters',
+    characters: resolveCharacters(wordData, hasBeenPronounced, adjustedTime, preReadingColor, charIndex =>
+      reducedMotion ? {} : { translateY: getCharacterWaveOffset(wordData, charIndex, adjustedTime, viewport.height) }
+    ),
+    visual: createVisual(wordData, currentFontSize, wordColor, {
+      offsetY: -elevationOffset,
+      fontWeight,
+      fontWidth,
+      underline: elevationUnderline
+    }),
+    style: {
+      fontSize: `${currentFontSize}px`,
+      fontWeight,
+      fontFamily: CAPTION_FONT_FAMILY,
+      fontVariationSettings: `"wdth" ${fontWidth}, "wght" ${fontWeight}`,
+      display: 'inline-block',
+      textAlign: 'center',
+      margin: '0 2px',
+      verticalAlign: 'baseline',
+      transformOrigin: 'bottom',
+      transform: elevationTransform || undefined,
+      ...getUnderlineStyle(elevationUnderline)
+    }
+  };
+};
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { CaptionFrameState, CaptionViewport, MediaTimeStore } from '../types';
+import type { CaptionEngine } from '../engine';
+import { getFrameStructureKey } from '../engine';
+import { useIsomorphicLayoutEffect } from './useIsomorphicLayoutEffect';
+
+interface PublishedFrame {
+  frame: CaptionFrameState;
+  key: string;
+}
+
+// 첫 커밋 전 (엔진 계산 전)의 빈 프레임
+const createEmptyFrame = (time: number, viewport: CaptionViewport): PublishedFrame => ({
+  frame: { time, adjustedTime: time, viewport: { ...viewport }, workAreaStyle: {}, boxes: [], queuedEvents: [] },
+  key: ''
+});
+
+// 시간 저장소를 구독해 캡션 프레임 계산
+// 구조 키(getFrameStructureKey)가 바뀔 때만 리렌더링하고, 시간이 바뀔 때마다 onFrame 으로 최신 프레임 전달
+// (elevation 이동 / canvas 등 연속 움직임은 onFrame 에서 명령형으로 적용)
+// 엔진은 이전 프레임을 이어받고 생명주기 이벤트를 전달하므로 렌더링 중에는 계산하지 않음 (effect / 구독 콜백에서만)
+export const useCaptionFrame = (
+  engine: CaptionEngine,
+  timeStore: MediaTimeStore,
+  viewport: CaptionViewport,
+  revision: unknown,  // 엔진 설정이 바뀌면 바뀌는 값 (일시정지 중에도 다시 계산)
+  onFrame?: (frame: CaptionFrameState) => void
+): CaptionFrameState => {
+  const [published, setPublished] = useState(() => createEmptyFrame(timeStore.getTime(), viewport));
+  const publishedRef = useRef(published);
+  const viewportRef = useRef(viewport);
+  const onFrameRef = useRef(onFrame);
+
+  useIsomorphicLayoutEffect(() => {
+    viewportRef.current = viewport;
+    onFrameRef.current = onFrame;
+  });
+
+  const publish = useCallback((next: PublishedFrame) => {
+    publishedRef.current = next;
+    setPublished(next);
+  }, []);
+
+  // 엔진 / 크기 / 설정이 바뀐 경우 (일시정지 중에도) 다시 계산해 그대로 표시 (페인트 전)
+  useIsomorphicLayoutEffect(() => {
+    const frame = engine.getFrameState(timeStore.getTime(), viewport);
+    publish({ frame, key: getFrameStructureKey(frame) });
+  }, [engine, timeStore, viewport, revision, publish]);
+
+  // 엔진은 이전 프레임을 이어받으므로 시간이 바뀔 때마다 한 번씩 계산
+  useEffect(
+    () => timeStore.subscribe(() => {
+      const frame = engine.getFrameState(timeStore.getTime(), viewportRef.current);
+      const key = getFrameStructureKey(frame);
+      if (key !== publishedRef.current.key) publish({ frame, key });
+      onFrameRef.current?.(frame);
+    }),
+    [engine, timeStore, publish]
+  );
+
+  return published.frame;
+};
@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+import type { CaptionPreferences } from '../types';
+import {
+  CAPTION_PREFERENCES_STORAGE_KEY,
+  clearCaptionPreferences,
+  loadCaptionPreferences,
+  saveCaptionPreferences
+} from '../utils/preferences';
+
+// 시청자가 바꾼 캡션 설정 (바꾼 값만, localStorage 에 저장)
+// storageKey 가 null 이면 저장하지 않고 이번 세션에만 적용
+export const useCaptionPreferences = (storageKey: string | null = CAPTION_PREFERENCES_STORAGE_KEY) => {
+  const [preferences, setPreferences] = useState<Partial<CaptionPreferences>>(() =>
+    storageKey ? loadCaptionPreferences(storageKey) : {}
+  );
+
+  // 저장 키가 바뀌면 그 키의 설정으로 교체
+  useEffect(() => {
+    setPreferences(storageKey ? loadCaptionPreferences(storageKey) : {});
+  }, [storageKey]);
+
+  const updatePreferences = useCallback((changes: Partial<CaptionPreferences>) => {
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    if (storageKey) saveCaptionPreferences(next, storageKey);
+  }, [preferences, storageKey]);
+
+  const resetPreferences = useCallback(() => {
+    setPreferences({});
+    if (storageKey) clearCaptionPreferences(storageKey);
+  }, [storageKey]);
+
+  return { preferences, updatePreferences, resetPreferences };
+};
@@ -0,0 +1,4 @@
+import { useEffect, useLayoutEffect } from 'react';
+
+// 페인트 전에 적용, 서버 렌더링에서는 effect (useLayoutEffect 경고 방지)
+export const useIsomorphicLayoutEffect = typeof window === 'undefined' ? useEffect : useLayoutEffect;
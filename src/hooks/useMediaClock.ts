@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import type { MediaClock, MediaClockSource, MediaTimeStore } from '../types';
+
+export interface MediaClockHandlers {
+  // 표시된 프레임마다 (재생 중, requestVideoFrameCallback 지원 시 일시정지 중 프레임 이동 / seek 포함)
+  onFrame?: (time: number, metadata?: VideoFrameCallbackMetadata) => void;
+  onPlay?: () => void;
+  onPause?: () => void;
+}
+
+export const resolveMediaClock = (source: MediaClockSource | null | undefined): MediaClock | null => {
+  if (!source) return null;
+  return 'paused' in source ? source : source.current;
+};
+
+export const createMediaTimeStore = (initialTime = 0): MediaTimeStore => {
+  let time = initialTime;
+  const listeners = new Set<() => void>();
+  return {
+    getTime: () => time,
+    setTime: next => {
+      if (next === time) return;
+      time = next;
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+};
+
+// 미디어 시계 구독
+// 현재 시간은 React 상태가 아닌 timeStore 로 전달 (프레임마다 리렌더링하지 않음)
+// requestVideoFrameCallback 을 지원하면 재생 / 일시정지와 관계없이 표시된 프레임의 mediaTime 으로 갱신
+// (일시정지 중 프레임 단위 이동도 화면의 프레임과 같은 시간), 미지원 시 재생 중에만 requestAnimationFrame
+export const useMediaClock = (source: MediaClockSource | null | undefined, handlers: MediaClockHandlers = {}) => {
+  const [clock, setClock] = useState<MediaClock | null>(() => resolveMediaClock(source));
+  const [timeStore] = useState(() => createMediaTimeStore(resolveMediaClock(source)?.currentTime ?? 0));
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const handlersRef = useRef(handlers);
+  const animationFrameRef = useRef<number | undefined>(undefined);
+  const videoFrameCallbackRef = useRef<number | undefined>(undefined);
+  // 프레임 콜백으로 마지막에 받은 presentedFrames (비디오 트랙이 없으면 undefined 로 남음)
+  const presentedFramesRef = useRef<number | undefined>(undefined);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  // ref는 커밋 시점에 채워지므로 effect에서 해석 (ref 객체가 같으면 다시 해석하지 않음)
+  useEffect(() => {
+    setClock(resolveMediaClock(source));
+  }, [source]);
+
+  // 미디어 이벤트 리스너
+  useEffect(() => {
+    if (!clock) return;
+
+    const handlePlay = () => {
+      setIsPlaying(true);
+      handlersRef.current.onPlay?.();
+    };
+    const handlePause = () => {
+      setIsPlaying(false);
+      handlersRef.current.onPause?.();
+    };
+    // 재생 중 프레임 콜백을 받고 있으면 timeupdate 의 currentTime (표시된 프레임보다 앞설 수 있음)은 사용하지 않음
+    const handleTimeUpdate = () => {
+      if (presentedFramesRef.current !== undefined && !clock.paused) return;
+      timeStore.setTime(clock.currentTime);
+    };
+    const handleRateChange = () => setPlaybackRate(clock.playbackRate ?? 1);
+
+    // 이미 재생 중인 외부 플레이어에 붙는 경우
+    timeStore.setTime(clock.currentTime);
+    setIsPlaying(!clock.paused);
+    setPlaybackRate(clock.playbackRate ?? 1);
+
+    clock.addEventListener('play', handlePlay);
+    clock.addEventListener('pause', handlePause);
+    clock.addEventListener('timeupdate', handleTimeUpdate);
+    clock.addEventListener('ratechange', handleRateChange);
+
+    return () => {
+      clock.removeEventListener('play', handlePlay);
+      clock.removeEventListener('pause', handlePause);
+      clock.removeEventListener('timeupdate', handleTimeUpdate);
+      clock.removeEventListener('ratechange', handleRateChange);
+    };
+  }, [clock, timeStore]);
+
+  // 표시된 프레임 콜백 (requestVideoFrameCallback): 일시정지 중에도 seek / 프레임 이동으로 새 프레임이 표시되면 호출됨
+  useEffect(() => {
+    if (!clock?.requestVideoFrameCallback) return;
+
+    presentedFramesRef.current = undefined;
+    const updateVideoFrame = (_now: DOMHighResTimeStamp, metadata: VideoFrameCallbackMetadata) => {
+      // 같은 프레임에 대한 중복 호출은 무시
+      if (metadata.presentedFrames !== presentedFramesRef.current) {
+        presentedFramesRef.current = metadata.presentedFrames;
+        timeStore.setTime(metadata.mediaTime);
+        handlersRef.current.onFrame?.(metadata.mediaTime, metadata);
+      }
+      videoFrameCallbackRef.current = clock.requestVideoFrameCallback?.(updateVideoFrame);
+    };
+    videoFrameCallbackRef.current = clock.requestVideoFrameCallback(updateVideoFrame);
+
+    return () => {
+      if (videoFrameCallbackRef.current !== undefined) {
+        clock.cancelVideoFrameCallback?.(videoFrameCallbackRef.current);
+        videoFrameCallbackRef.current = undefined;
+      }
+    };
+  }, [clock, timeStore]);
+
+  // Fallback to requestAnimationFrame if requestVideoFrameCallback not available (재생 중에만)
+  useEffect(() => {
+    if (!clock || clock.requestVideoFrameCallback || !isPlaying) return;
+
+    const fallbackUpdate = () => {
+      const time = clock.currentTime;
+      timeStore.setTime(time);
+      handlersRef.current.onFrame?.(time);
+      animationFrameRef.current = requestAnimationFrame(fallbackUpdate);
+    };
+    animationFrameRef.current = requestAnimationFrame(fallbackUpdate);
+
+    return () => {
+      // 일시정지 / 언마운트 시 콜백 취소
+      if (animationFrameRef.current !== undefined) {
+        cancelAnimationFrame(animationFrameRef.current);
+        animationFrameRef.current = undefined;
+      }
+    };
+  }, [clock, isPlaying, timeStore]);
+
+  return { clock, timeStore, isPlaying, playbackRate };
+};
+
+// 시간 저장소 구독 (selector 결과가 바뀔 때만 리렌더링, 기본은 현재 시간 그대로 / selector 는 원시 값을 반환)
+// 예: useMediaTime(timeStore, time => Math.floor(time)) 는 1초마다
+export const useMediaTime = <T = number>(
+  timeStore: MediaTimeStore,
+  selector: (time: number) => T = time => time as T
+): T => {
+  const getSnapshot = () => selector(timeStore.getTime());
+  return useSyncExternalStore(timeStore.subscribe, getSnapshot, getSnapshot);
+};
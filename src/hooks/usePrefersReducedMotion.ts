@@ -0,0 +1,17 @@
+import { useCallback, useSyncExternalStore } from 'react';
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+// SSR / matchMedia 가 없는 환경에서는 null
+const getMediaQuery = (): MediaQueryList | null =>
+  typeof window !== 'undefined' && typeof window.matchMedia === 'function' ? window.matchMedia(REDUCED_MOTION_QUERY) : null;
+
+// 시스템 설정의 움직임 줄이기 (prefers-reduced-motion: reduce), 설정이 바뀌면 다시 렌더링
+export const usePrefersReducedMotion = (): boolean => {
+  const subscribe = useCallback((listener: () => void) => {
+    const query = getMediaQuery();
+    query?.addEventListener('change', listener);
+    return () => query?.removeEventListener('change', listener);
+  }, []);
+  return useSyncExternalStore(subscribe, () => getMediaQuery()?.matches ?? false, () => false);
+};
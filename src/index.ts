@@ -1,19 +1,128 @@
 // Main library exports
 export { CaptionWithIntention } from './components/CaptionWithIntention';
+export { CaptionOverlay } from './components/CaptionOverlay';
+export { CaptionSettingsMenu } from './components/CaptionSettingsMenu';
+export { useMediaClock, useMediaTime, createMediaTimeStore } from './hooks/useMediaClock';
+export { useCaptionPreferences } from './hooks/useCaptionPreferences';
+export { usePrefersReducedMotion } from './hooks/usePrefersReducedMotion';
+export { drawCaptionFrame } from './renderers/canvasRenderer';
+export { OfflineCaptionRenderer, renderPngSequence } from './renderers/offlineRenderer';
 export { GSAPAnimationManager } from './managers/GSAPAnimationManager';
-export { assColorToCss } from './utils';
+export {
+  CaptionEngine,
+  TextMeasurementService,
+  createCanvasTextMeasurer,
+  estimateTextWidth,
+  getFrameStructureKey,
+  CONTINUOUS_WORD_STYLE_PROPERTIES,
+  AnimationRegistry,
+  animationRegistry,
+  registerAnimation
+} from './engine';
+export {
+  assColorToCss,
+  cssColorToAss,
+  parseTimingSyncData,
+  formatTimingSyncIssue,
+  CURRENT_TIMING_SYNC_VERSION,
+  createDefaultLayoutSettings,
+  getVoiceCharacteristics,
+  formatCaptionAnnouncement,
+  getMusicCueText,
+  isMusicCue,
+  getSoundEventText,
+  isSoundEvent,
+  DEFAULT_CAPTION_PREFERENCES,
+  CAPTION_PREFERENCES_STORAGE_KEY,
+  resolveCaptionPreferences,
+  loadCaptionPreferences,
+  saveCaptionPreferences,
+  clearCaptionPreferences
+} from './utils';
+export {
+  importAss,
+  exportAss,
+  importSrt,
+  exportSrt,
+  importWebVtt,
+  exportWebVtt
+} from './converters';
 
 // Type exports
 export type {
   TimingSyncData,
   SyncEvent,
+  SyncEventKind,
+  MusicCue,
+  SoundEvent,
+  SoundCategory,
   CharacterTiming,
+  PitchPoint,
   Word,
   ElevationEffect,
   CaptionWithIntentionProps,
+  CaptionWithIntentionHandle,
+  CaptionOverlayProps,
+  CaptionLifecycleCallbacks,
+  CaptionAccessibilityProps,
+  CaptionPreferences,
+  CaptionUnderline,
+  CaptionSettingsMenuProps,
+  SpeakerInfo,
+  SpeakerPlacement,
+  SpeakerRegistry,
+  CaptionSpeakerFrame,
+  CaptionEngineEventMap,
+  CaptionEngineEventType,
+  MediaClock,
+  MediaClockEventType,
+  MediaClockSource,
+  MediaTimeStore,
   WordWithEvent,
-  CurrentEvents
+  CurrentEvents,
+  LayoutSettings,
+  TimingSyncIssue,
+  TimingSyncIssueCode,
+  TimingSyncParseResult,
+  CaptionViewport,
+  CaptionStyle,
+  CaptionFrameState,
+  CaptionBoxFrame,
+  WordFrame,
+  WordPhase,
+  CharacterFrame,
+  TextMeasureFont,
+  TextMeasurer,
+  CaptionBoxAllocation,
+  CaptionBoxPolicy,
+  CaptionBoxOverflow,
+  CaptionBoxAnchor,
+  CaptionPlacementHint,
+  NormalizedRect,
+  AvoidRegion,
+  CaptionRendererType,
+  CaptionEffectClock,
+  CaptionBoxGeometry,
+  WordVisual,
+  AnimationType,
+  BuiltInAnimationType,
+  AnimationConfig,
+  AnimationConfigField,
+  AnimationConfigSchema,
+  AnimationEffect,
+  AnimationPlugin
 } from './types';
+export type { CaptionEngineOptions } from './engine';
+export type { VoiceCharacteristic, CaptionAnnouncementOptions } from './utils';
+export type { MediaClockHandlers } from './hooks/useMediaClock';
+export type { CanvasCaptionRenderOptions } from './renderers/canvasRenderer';
+export type { OfflineCanvas, OfflineRenderOptions, PngSequenceFrame, PngSequenceOptions } from './renderers/offlineRenderer';
+export type {
+  AssImportOptions,
+  AssExportOptions,
+  CueImportOptions,
+  WebVttExportOptions
+} from './converters';
 
 // Version
 export const VERSION = '1.0.0';
\ No newline at end of file
@@ -1,92 +1,25 @@
 import { gsap } from 'gsap';
-import type { Word } from '../types';
+import type { CharacterFrame, Word } from '../types';
+import { getCharacterWaveOffset } from '../engine/motion';
+
+// 글자 단위 움직임 (애니메이션 플러그인의 translate / scale 결과)
+type CharacterMotion = Pick<CharacterFrame, 'offsetX' | 'offsetY' | 'scale'>;
 
 // GSAP 기반 애니메이션 관리자 클래스
+// 엔진 프레임의 글자 움직임 (애니메이션 플러그인 결과)을 DOM 에 적용, CaptionOverlay 도 이 경로를 사용
+// 웨이브는 bouncing 플러그인과 같은 getCharacterWaveOffset 으로 계산 (DOM / canvas 렌더러와 같은 곡선)
 export class GSAPAnimationManager {
   private activeAnimations = new Map<string, gsap.core.Timeline>();
-  private waveAnimations = new Map<string, { 
-    element: HTMLElement, 
-    charPhase: number, 
-    bounceRange: number, 
-    startTime: number, 
-    duration: number,
-    preRoll?: number,
-    peakPosition?: number 
-  }>();
-
-  createBouncingAnimation(
-    element: HTMLElement,
-    charIndex: number,
-    wordLength: number,
-    _popAnimationData: Word['pop_animation'] | undefined,
-    bouncingAnimation: Word['bouncing_animation'],
-    screenHeight: number,
-    char: string = '',
-    wordText: string = '',
-    startTime: number = 0
-  ): gsap.core.Timeline {
-    const animationId = `${element.dataset.charIndex || charIndex}-bounce`;
-    
-    // 애니메이션 중복 방지만 (kill은 사용자 컴포너트에서 처리)
-    if (this.activeAnimations.has(animationId)) {
-      this.activeAnimations.get(animationId)?.kill();
-    }
-
-    const timeline = gsap.timeline({
-      paused: true,
-      onComplete: () => {
-        // 자연스러운 elastic.out 완료를 위해 강제 reset 제거
-        this.activeAnimations.delete(animationId);
-      }
-    });
+  private waveAnimations = new Map<HTMLElement, { word: Word; charIndex: number; screenHeight: number }>();
 
-    if (!bouncingAnimation?.enabled) return timeline;
-
-    const minBounce = screenHeight * (bouncingAnimation.min_height_percent / 100);
-    const maxBounce = screenHeight * (bouncingAnimation.max_height_percent / 100);
-    const bounceRange = maxBounce - minBounce;
-
-    // 연속적인 파도 애니메이션을 위한 위상(phase) 계산
-    const phaseOffset = (Math.PI * 2) / wordLength; // 각 글자 간 위상 차이
-    const charPhase = charIndex * phaseOffset; // 이 글자의 초기 위상
-    
-    const animationDuration = _popAnimationData 
-      ? (_popAnimationData.scale_up_duration_ms + _popAnimationData.scale_down_duration_ms) / 1000
-      : 0.5;
-    
-    // Get pre-roll and peak position from bouncing animation config
-    const preRoll = (bouncingAnimation as any).pre_roll_ms ? (bouncingAnimation as any).pre_roll_ms / 1000 : 0;
-    const peakPosition = (bouncingAnimation as any).peak_position || 0.25;
-    
-    // Adjust start time with animation offset if provided
-    const animationStartOffset = (bouncingAnimation as any).animation_start_offset || 0;
-    const adjustedStartTime = startTime + animationStartOffset;
-    
-    // DEBUG: bouncing 범위 확인
-    if (wordText === "Hello") {
-      console.log(`[WAVE_CALC] ${char}(${charIndex}): bounceRange=${bounceRange.toFixed(1)}px, phase=${(charPhase * 180/Math.PI).toFixed(0)}°, duration=${animationDuration.toFixed(2)}s, preRoll=${preRoll.toFixed(2)}s`);
-    }
-    
-    // 웨이브 애니메이션 데이터 저장 (비디오 시간 기반 계산용)
-    this.waveAnimations.set(animationId, {
-      element,
-      charPhase,
-      bounceRange,
-      startTime: adjustedStartTime,
-      duration: animationDuration,
-      preRoll,
-      peakPosition
-    });
-    
-    // 초기 위치 설정만
-    timeline
-      .set(element, { 
-        y: 0,  // 항상 베이스라인에서 시작
-        transformOrigin: "center bottom"
-      })
+  // 글자 요소를 웨이브 대상으로 등록 (위치는 updateWaveAnimations 에서 비디오 시간만으로 계산)
+  createBouncingAnimation(element: HTMLElement, word: Word, charIndex: number, screenHeight: number) {
+    this.waveAnimations.set(element, { word, charIndex, screenHeight });
+  }
 
-    this.activeAnimations.set(animationId, timeline);
-    return timeline;
+  removeBouncingAnimation(element: HTMLElement) {
+    this.waveAnimations.delete(element);
+    this.applyCharacterMotion(element, { offsetX: 0, offsetY: 0, scale: 1 });
   }
 
   createColorTransition(
@@ -95,7 +28,7 @@ export class GSAPAnimationManager {
     duration: number
   ): gsap.core.Timeline {
     const animationId = `${element.dataset.charIndex}-color`;
-    
+
     // 기존 색상 애니메이션 정리
     if (this.activeAnimations.has(animationId)) {
       this.activeAnimations.get(animationId)?.kill();
@@ -123,38 +56,37 @@ export class GSAPAnimationManager {
     this.activeAnimations.get(animationId)?.play();
   }
 
+  // 글자 움직임 적용, 제자리면 transform 을 한 번만 지우고 이후 프레임은 GSAP 호출 없음
+  applyCharacterMotion(element: HTMLElement, { offsetX, offsetY, scale }: CharacterMotion) {
+    if (!offsetX && !offsetY && scale === 1) {
+      if (element.style.transform) gsap.set(element, { clearProps: 'transform' });
+      return;
+    }
+    gsap.set(element, { x: offsetX, y: offsetY, scale, transformOrigin: 'bottom' });
+  }
+
+  // 단어 요소의 글자 span (children[i] = characters[i])에 프레임의 글자 움직임 적용
+  applyCharacterFrames(wordElement: HTMLElement, characters: CharacterMotion[]) {
+    characters.forEach((character, i) => {
+      const charElement = wordElement.children[i];
+      if (charElement instanceof HTMLElement) this.applyCharacterMotion(charElement, character);
+    });
+  }
+
   // 비디오 시간 기반으로 웨이브 애니메이션 업데이트
+  // 등록된 글자는 구간이 끝나도 유지하고 매번 시간만으로 위치를 계산 (seek / 역방향 이동에도 같은 위치)
+  // 문서에서 분리된 글자는 정리, 구간 밖 (제자리) 글자는 GSAP 호출 없음
   updateWaveAnimations(videoTime: number) {
-    this.waveAnimations.forEach((data, id) => {
-      const { element, charPhase, bounceRange, startTime, duration, preRoll = 0, peakPosition = 0.25 } = data;
-      const elapsed = videoTime - startTime;
-      
-      // Include pre-roll in the animation timeline
-      // const totalDuration = duration + preRoll;
-      const adjustedElapsed = elapsed + preRoll;
-      
-      if (elapsed >= -preRoll && elapsed <= duration) {
-        // Calculate progress considering pre-roll
-        const progress = Math.max(0, Math.min(1, adjustedElapsed / duration));
-        
-        // Adjust wave position to ensure peak occurs at peakPosition
-        const waveCycles = 0.5;
-        // Shift the wave so that the peak occurs at peakPosition
-        const phaseShift = -peakPosition * Math.PI * 2 * waveCycles;
-        const wavePosition = (progress * waveCycles * Math.PI * 2) + phaseShift;
-        
-        // baseline 위로만 움직이도록 Math.abs 사용, 제곱 감쇄로 빠른 소멸
-        const sineValue = Math.abs(Math.sin(wavePosition + charPhase));
-        const damping = Math.pow(1 - progress, 2); // 제곱 감쇄
-        const currentY = -bounceRange * sineValue * damping;
-        gsap.set(element, { y: currentY });
-      } else if (elapsed > duration) {
-        gsap.set(element, { y: 0 });
-        this.waveAnimations.delete(id);
+    this.waveAnimations.forEach(({ word, charIndex, screenHeight }, element) => {
+      if (!element.isConnected) {
+        this.waveAnimations.delete(element);
+        return;
       }
+      const offsetY = getCharacterWaveOffset(word, charIndex, videoTime, screenHeight);
+      this.applyCharacterMotion(element, { offsetX: 0, offsetY, scale: 1 });
     });
   }
-  
+
   pauseAll() {
     // 더 이상 필요 없음 - 비디오 시간 기반 업데이트로 대체
   }
@@ -166,5 +98,6 @@ export class GSAPAnimationManager {
   clearAll() {
     this.activeAnimations.forEach(timeline => timeline.kill());
     this.activeAnimations.clear();
+    this.waveAnimations.clear();
   }
-}
\ No newline at end of file
+}
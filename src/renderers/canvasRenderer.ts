@@ -0,0 +1,278 @@
+import type { CaptionBoxFrame, CaptionFrameState, CaptionUnderline, TextMeasureFont, WordFrame } from '../types';
+import {
+  CAPTION_FONT_FAMILY,
+  applyCanvasFont,
+  getCharacterTransitionColor
+} from '../engine';
+
+type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export interface CanvasCaptionRenderOptions {
+  clear?: boolean;  // 그리기 전에 viewport 영역 지우기 (기본 true)
+  // 화자 아바타 이미지 (기본: Image 캐시, 로딩이 끝난 이미지만 그림)
+  loadImage?: (url: string) => CanvasImageSource | null;
+}
+
+// DOM 렌더러와 같은 간격 (단어 margin 0 2px, 문장 gap 4px)
+const WORD_MARGIN = 2;
+const WORD_GAP = 4;
+// line-height 1 에서 글자 하단 ~ baseline 비율 (Roboto Flex 기준 근사치)
+const DESCENT_RATIO = 0.2;
+const LABEL_SCALE = 0.6;
+
+const imageCache = new Map<string, HTMLImageElement>();
+
+const loadCachedImage = (url: string): CanvasImageSource | null => {
+  if (typeof Image === 'undefined') return null;
+  let image = imageCache.get(url);
+  if (!image) {
+    image = new Image();
+    image.src = url;
+    imageCache.set(url, image);
+  }
+  return image.complete && image.naturalWidth > 0 ? image : null;
+};
+
+// "0 0 4px rgba(...)" 형태의 첫 번째 그림자
+const applyTextShadow = (ctx: Canvas2DContext, textShadow: string | undefined) => {
+  const match = textShadow && /^\s*(-?[\d.]+)(?:px)?\s+(-?[\d.]+)(?:px)?\s+([\d.]+)(?:px)?\s+(.+)$/.exec(textShadow);
+  if (!match) return;
+  ctx.shadowOffsetX = parseFloat(match[1]);
+  ctx.shadowOffsetY = parseFloat(match[2]);
+  ctx.shadowBlur = parseFloat(match[3]);
+  ctx.shadowColor = match[4].split(/,(?![^(]*\))/)[0].trim();
+};
+
+const getWordFont = (wordFrame: WordFrame): TextMeasureFont => ({
+  family: CAPTION_FONT_FAMILY,
+  sizePx: wordFrame.visual.fontSize,
+  weight: wordFrame.visual.fontWeight,
+  width: wordFrame.visual.fontWidth || 100
+});
+
+interface WordLayout {
+  frame: WordFrame;
+  font: TextMeasureFont;
+  widthScale: number;
+  width: number;
+  charWidths?: number[];  // 글자 단위 렌더링 (inline-block 글자라 커닝 없음)
+}
+
+// 움직임 줄이기의 밑줄 (DOM text-underline-offset 0.15em 과 같은 위치)
+const drawUnderline = (
+  ctx: Canvas2DContext,
+  underline: CaptionUnderline,
+  left: number,
+  width: number,
+  baselineY: number,
+  fontSize: number,
+  color: string
+) => {
+  const y = baselineY + fontSize * 0.15;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = Math.max(1, fontSize * 0.06);
+  ctx.beginPath();
+  if (underline === 'wavy') {
+    const amplitude = fontSize * 0.05;
+    const wavelength = fontSize * 0.3;
+    ctx.moveTo(left, y);
+    for (let x = 0; x <= width; x += wavelength / 8) {
+      ctx.lineTo(left + x, y + Math.sin((x / wavelength) * 2 * Math.PI) * amplitude);
+    }
+  } else {
+    ctx.moveTo(left, y);
+    ctx.lineTo(left + width, y);
+  }
+  ctx.stroke();
+};
+
+const layoutWord = (ctx: Canvas2DContext, wordFrame: WordFrame): WordLayout => {
+  const font = getWordFont(wordFrame);
+  const widthScale = applyCanvasFont(ctx, font);
+  if (wordFrame.renderMode === 'characters' && wordFrame.characters) {
+    const charWidths = wordFrame.characters.map(character => ctx.measureText(character.char).width * widthScale);
+    return { frame: wordFrame, font, widthScale, width: charWidths.reduce((sum, width) => sum + width, 0), charWidths };
+  }
+  return { frame: wordFrame, font, widthScale, width: ctx.measureText(wordFrame.word.word).width * widthScale };
+};
+
+interface LabelLayout {
+  font: TextMeasureFont;
+  avatarSize: number;
+  iconWidth: number;
+  nameWidth: number;
+  gap: number;
+  width: number;  // margin-right 포함
+}
+
+const layoutLabel = (ctx: Canvas2DContext, box: CaptionBoxFrame): LabelLayout | null => {
+  const { speaker, geometry } = box;
+  if (!speaker.showLabel) return null;
+  const em = geometry.fontSize * LABEL_SCALE;
+  const font = { family: CAPTION_FONT_FAMILY, sizePx: em, weight: 600, width: 100 };
+  applyCanvasFont(ctx, font);
+  const avatarSize = speaker.avatarUrl ? em * 1.6 + 4 : 0;
+  const iconWidth = speaker.icon ? ctx.measureText(speaker.icon).width : 0;
+  const nameWidth = ctx.measureText(speaker.displayName).width;
+  const parts = [avatarSize, iconWidth, nameWidth].filter(width => width > 0);
+  const gap = em * 0.3;
+  const width = parts.reduce((sum, part) => sum + part, 0) + gap * (parts.length - 1) + em * 0.5;
+  return { font, avatarSize, iconWidth, nameWidth, gap, width };
+};
+
+const drawLabel = (
+  ctx: Canvas2DContext,
+  box: CaptionBoxFrame,
+  label: LabelLayout,
+  x: number,
+  centerY: number,
+  loadImage: (url: string) => CanvasImageSource | null
+) => {
+  const { speaker } = box;
+  let cursor = x;
+  ctx.save();
+  if (speaker.avatarUrl) {
+    const radius = label.avatarSize / 2;
+    const image = loadImage(speaker.avatarUrl);
+    ctx.beginPath();
+    ctx.arc(cursor + radius, centerY, radius - 1, 0, Math.PI * 2);
+    if (image) {
+      ctx.save();
+      ctx.clip();
+      ctx.drawImage(image, cursor, centerY - radius, label.avatarSize, label.avatarSize);
+      ctx.restore();
+    }
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = speaker.color;
+    ctx.stroke();
+    cursor += label.avatarSize + label.gap;
+  }
+
+  applyCanvasFont(ctx, label.font);
+  ctx.fillStyle = speaker.color;
+  ctx.textBaseline = 'middle';
+  if (speaker.icon) {
+    ctx.fillText(speaker.icon, cursor, centerY);
+    cursor += label.iconWidth + label.gap;
+  }
+  ctx.fillText(speaker.displayName, cursor, centerY);
+  ctx.restore();
+};
+
+// 단어 하나 그리기: 하단 중앙 기준 이동 / 확대, 글자별 웨이브 / 색상 전환
+const drawWord = (ctx: Canvas2DContext, layout: WordLayout, centerX: number, baseline: number, adjustedTime: number) => {
+  const { frame, font, widthScale, width } = layout;
+  const { visual } = frame;
+  const descent = font.sizePx * DESCENT_RATIO;
+
+  ctx.save();
+  ctx.globalAlpha *= visual.opacity;
+  const filters = [
+    visual.blur > 0 ? `blur(${visual.blur}px)` : '',
+    visual.brightness !== 1 ? `brightness(${visual.brightness})` : ''
+  ].filter(Boolean);
+  if (filters.length > 0 && 'filter' in ctx) ctx.filter = filters.join(' ');
+  applyTextShadow(ctx, visual.textShadow);
+
+  ctx.translate(centerX + visual.offsetX, baseline + descent + visual.offsetY);
+  ctx.scale(visual.scale * widthScale, visual.scale);
+  applyCanvasFont(ctx, font);
+  ctx.textBaseline = 'alphabetic';
+
+  const left = -width / 2 / widthScale;
+  if (layout.charWidths && frame.characters) {
+    let cursor = left;
+    frame.characters.forEach((character, i) => {
+      // DOM 렌더러와 같은 색상 전환 곡선 (from_color → to_color)
+      ctx.fillStyle = character.pronounced
+        ? getCharacterTransitionColor(frame.word, character.charIndex, adjustedTime)
+        : character.color;
+      const charWidth = (layout.charWidths?.[i] ?? 0) / widthScale;
+      if (character.offsetX || character.scale !== 1) {
+        // 글자 단위 플러그인 움직임: DOM 과 같이 글자 아래 가운데 기준 확대
+        ctx.save();
+        ctx.translate(cursor + charWidth / 2 + character.offsetX, character.offsetY);
+        ctx.scale(character.scale, character.scale);
+        ctx.fillText(character.char, -charWidth / 2, -descent);
+        ctx.restore();
+      } else {
+        ctx.fillText(character.char, cursor, -descent + character.offsetY);
+      }
+      cursor += charWidth;
+    });
+  } else {
+    ctx.fillStyle = visual.color;
+    ctx.fillText(frame.word.word, left, -descent);
+  }
+  if (visual.underline) drawUnderline(ctx, visual.underline, left, width / widthScale, -descent, font.sizePx, visual.color);
+  ctx.restore();
+};
+
+const drawBox = (
+  ctx: Canvas2DContext,
+  box: CaptionBoxFrame,
+  frame: CaptionFrameState,
+  loadImage: (url: string) => CanvasImageSource | null
+) => {
+  const { geometry } = box;
+  const label = layoutLabel(ctx, box);
+  const words = box.words.map(wordFrame => layoutWord(ctx, wordFrame));
+  const wordsWidth = words.reduce((sum, word) => sum + word.width + WORD_MARGIN * 2, 0) + WORD_GAP * Math.max(0, words.length - 1);
+  const contentWidth = (label?.width ?? 0) + wordsWidth;
+
+  // 박스 크기 / 위치 (fit-content, maxWidth = 배치 영역)
+  const boxWidth = geometry.fixedWidth
+    ? geometry.areaWidth
+    : Math.min(contentWidth + geometry.paddingX * 2, geometry.areaWidth);
+  const boxLeft = geometry.align === 'left'
+    ? geometry.areaLeft
+    : geometry.align === 'right'
+      ? geometry.areaLeft + geometry.areaWidth - boxWidth
+      : geometry.areaLeft + (geometry.areaWidth - boxWidth) / 2;
+  const boxTop = frame.viewport.height - geometry.bottom - geometry.height;
+
+  ctx.save();
+  ctx.fillStyle = geometry.backgroundColor;
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
+  ctx.shadowBlur = 8;
+  ctx.shadowOffsetY = 2;
+  ctx.beginPath();
+  if (geometry.borderRadius > 0 && 'roundRect' in ctx) {
+    ctx.roundRect(boxLeft, boxTop, boxWidth, geometry.height, geometry.borderRadius);
+  } else {
+    ctx.rect(boxLeft, boxTop, boxWidth, geometry.height);
+  }
+  ctx.fill();
+  ctx.restore();
+
+  // 내용은 가로 가운데, 세로 하단 (align-items: flex-end) 정렬
+  const contentBottom = boxTop + geometry.height - geometry.paddingY;
+  const maxFontSize = Math.max(geometry.fontSize, ...words.map(word => word.font.sizePx));
+  const baseline = contentBottom - maxFontSize * DESCENT_RATIO;
+  let cursor = boxLeft + (boxWidth - contentWidth) / 2;
+
+  if (label) {
+    drawLabel(ctx, box, label, cursor, contentBottom - maxFontSize / 2, loadImage);
+    cursor += label.width;
+  }
+  words.forEach((word, i) => {
+    if (i > 0) cursor += WORD_GAP;
+    cursor += WORD_MARGIN;
+    drawWord(ctx, word, cursor + word.width / 2, baseline, frame.adjustedTime);
+    cursor += word.width + WORD_MARGIN;
+  });
+};
+
+// 캡션 프레임 상태를 canvas 2D 컨텍스트에 그림 (좌표는 frame.viewport 기준 CSS px, devicePixelRatio 는 호출 측 transform)
+export const drawCaptionFrame = (
+  ctx: Canvas2DContext,
+  frame: CaptionFrameState,
+  options: CanvasCaptionRenderOptions = {}
+) => {
+  const { clear = true, loadImage = loadCachedImage } = options;
+  if (clear) ctx.clearRect(0, 0, frame.viewport.width, frame.viewport.height);
+  // DOM 과 같은 겹침 순서 (zIndex 가 큰 박스가 위)
+  [...frame.boxes]
+    .sort((a, b) => Number(a.style.zIndex ?? 0) - Number(b.style.zIndex ?? 0))
+    .forEach(box => drawBox(ctx, box, frame, loadImage));
+};
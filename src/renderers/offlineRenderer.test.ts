@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { OfflineCaptionRenderer, renderPngSequence } from './offlineRenderer';
+import type { OfflineCanvas } from './offlineRenderer';
+import type { SyncEvent } from '../types';
+import { createEvent, createLayoutSettings, createTimingSyncData } from '../test/fixtures';
+
+const WIDTH = 640;
+const HEIGHT = 360;
+const FPS = 12;
+
+// 글자 수 기준 측정 (환경과 관계없이 같은 줄 나눔)
+const textMeasurer = (text: string, font: { sizePx: number }) => text.length * font.sizePx * 0.5;
+
+// 2D context 호출 / 속성 변경을 문자열로 기록하는 canvas
+const createRecordingCanvas = (width: number, height: number) => {
+  const calls: string[] = [];
+  const state: Record<string, unknown> = {};
+  const format = (value: unknown) => (typeof value === 'number' ? String(Math.round(value * 100) / 100) : String(value));
+  const context = new Proxy(state, {
+    has: () => true,
+    get: (target, property) => {
+      if (typeof property !== 'string' || property in target) return target[property as string];
+      if (property === 'measureText') {
+        return (text: string) => ({ width: text.length * Number(/([\d.]+)px/.exec(String(target.font))?.[1] ?? 10) * 0.5 });
+      }
+      return (...args: unknown[]) => {
+        calls.push(`${property}(${args.map(format).join(', ')})`);
+      };
+    },
+    set: (target, property, value) => {
+      target[property as string] = value;
+      calls.push(`${String(property)} = ${format(value)}`);
+      return true;
+    }
+  });
+  const canvas: OfflineCanvas = { width, height, getContext: () => context as unknown as CanvasRenderingContext2D };
+  return { canvas, calls };
+};
+
+// 화자 3명이 번갈아 겹쳐 말하고 (박스 2개를 넘음), 중간에 공백이 있는 대화
+const createConversation = () => {
+  const events: SyncEvent[] = [];
+  [1, 2.5, 4, 5.5, 12, 13.2].forEach((start, i) => {
+    const words = Array.from({ length: 10 }, (_, w): [string, number, number] =>
+      [`word${i}${String.fromCharCode(97 + w)}x`, start + w * 0.25, start + w * 0.25 + 0.2]);
+    events.push(createEvent(`sync_${String(i + 1).padStart(3, '0')}`, words, { speaker_id: `SPEAKER_0${i % 3}` }));
+  });
+  return createTimingSyncData(events, { layout_settings: createLayoutSettings() });
+};
+
+const createRenderer = () => {
+  const recording = createRecordingCanvas(1, 1);
+  const renderer = new OfflineCaptionRenderer(createConversation(), { textMeasurer, createCanvas: () => recording.canvas });
+  // time 의 그리기 호출
+  const render = (time: number) => {
+    recording.calls.length = 0;
+    renderer.renderFrame(time, WIDTH, HEIGHT);
+    return recording.calls.join('\n');
+  };
+  return { renderer, render };
+};
+
+// 결정적 셔플 (선형 합동 난수)
+const shuffle = <T,>(items: T[]): T[] => {
+  const result = [...items];
+  let seed = 42;
+  for (let i = result.length - 1; i > 0; i--) {
+    seed = (seed * 1103515245 + 12345) % 2147483648;
+    const j = seed % (i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+describe('OfflineCaptionRenderer', () => {
+  it('draws the same frame for a time regardless of render order', () => {
+    const linear = createRenderer();
+    const times = Array.from({ length: Math.ceil(linear.renderer.getDuration() * FPS) }, (_, i) => i / FPS);
+    const expected = new Map(times.map(time => [time, linear.render(time)]));
+    expect([...expected.values()].some(calls => calls.includes('fillText'))).toBe(true);
+
+    const seeking = createRenderer();
+    for (const time of shuffle(times)) {
+      expect(seeking.render(time), `at ${time}`).toBe(expected.get(time));
+    }
+    // 같은 렌더러로 처음부터 다시 그려도 같은 프레임
+    for (const time of times) {
+      expect(seeking.render(time), `again at ${time}`).toBe(expected.get(time));
+    }
+  });
+
+  it('writes a PNG sequence with one frame per fps step until the last caption', async () => {
+    const { renderer, render } = createRenderer();
+    const encoder = new TextEncoder();
+    const written: { index: number; time: number; png: string }[] = [];
+    const recording = createRecordingCanvas(1, 1);
+
+    const count = await renderPngSequence(createConversation(), {
+      fps: FPS,
+      width: WIDTH,
+      height: HEIGHT,
+      textMeasurer,
+      createCanvas: () => recording.canvas,
+      encodePng: () => {
+        const png = encoder.encode(recording.calls.join('\n'));
+        recording.calls.length = 0;
+        return png;
+      },
+      writeFrame: ({ index, time, png }) => {
+        written.push({ index, time, png: new TextDecoder().decode(png) });
+      }
+    });
+
+    expect(count).toBe(Math.ceil(renderer.getDuration() * FPS));
+    expect(written.map(frame => frame.index)).toEqual(Array.from({ length: count }, (_, i) => i));
+    written.forEach(frame => {
+      expect(frame.time).toBe(frame.index / FPS);
+      expect(frame.png).toBe(render(frame.time));
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import type { CaptionFrameState, TextMeasurer, TimingSyncData } from '../types';
+import { CaptionEngine, applyCanvasFont } from '../engine';
+import type { CaptionEngineOptions } from '../engine';
+import { drawCaptionFrame } from './canvasRenderer';
+
+type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// 오프라인 렌더링 대상 canvas (브라우저 OffscreenCanvas, Node 는 @napi-rs/canvas / node-canvas 등)
+export interface OfflineCanvas {
+  width: number;
+  height: number;
+  getContext(contextId: '2d'): Canvas2DContext | null;
+}
+
+export interface OfflineRenderOptions extends CaptionEngineOptions {
+  createCanvas?: (width: number, height: number) => OfflineCanvas; // 기본: OffscreenCanvas
+  // 화자 아바타 이미지 (기본: 그리지 않음, 로딩 시점에 따라 프레임이 달라지지 않도록 미리 로딩한 이미지만 전달)
+  loadImage?: (url: string) => CanvasImageSource | null;
+}
+
+export interface PngSequenceFrame {
+  index: number;   // 0부터 (ffmpeg -i frame_%05d.png 의 번호)
+  time: number;    // 비디오 시간 (초) = start + index / fps
+  png: Uint8Array;
+}
+
+export interface PngSequenceOptions extends OfflineRenderOptions {
+  fps: number;
+  width: number;
+  height: number;
+  start?: number;  // 초 (기본 0)
+  end?: number;    // 초 (기본: 마지막 이벤트 pre_reading 끝)
+  encodePng?: (canvas: OfflineCanvas) => Uint8Array | Promise<Uint8Array>; // 기본: convertToBlob / toBuffer
+  writeFrame: (frame: PngSequenceFrame) => void | Promise<void>;
+}
+
+const createOffscreenCanvas = (width: number, height: number): OfflineCanvas => {
+  if (typeof OffscreenCanvas === 'undefined') {
+    throw new Error('OffscreenCanvas is not available: pass createCanvas (e.g. @napi-rs/canvas) for offline rendering');
+  }
+  return new OffscreenCanvas(width, height);
+};
+
+// OffscreenCanvas.convertToBlob, 없으면 node canvas 의 toBuffer('image/png')
+const encodeCanvasPng = async (canvas: OfflineCanvas): Promise<Uint8Array> => {
+  const target = canvas as OfflineCanvas & {
+    convertToBlob?: (options: { type: string }) => Promise<Blob>;
+    toBuffer?: (mimeType: 'image/png') => Uint8Array;
+  };
+  if (target.convertToBlob) return new Uint8Array(await (await target.convertToBlob({ type: 'image/png' })).arrayBuffer());
+  if (target.toBuffer) return target.toBuffer('image/png');
+  throw new Error('Cannot encode canvas as PNG: pass encodePng');
+};
+
+// 시간만으로 정해지는 캡션 레이어 렌더러 (번인 자막 / PNG 시퀀스)
+// 벽시계 / GSAP tween 없이 엔진 프레임 상태를 canvas 렌더러로 그림
+// 엔진 프레임은 시간만으로 정해지므로 같은 시간은 호출 순서 / seek 와 관계없이 같은 프레임
+export class OfflineCaptionRenderer {
+  private engine: CaptionEngine;
+  private createCanvas: (width: number, height: number) => OfflineCanvas;
+  private loadImage: (url: string) => CanvasImageSource | null;
+  private canvas: OfflineCanvas | null = null;
+  private context: Canvas2DContext | null = null;
+
+  constructor(data: TimingSyncData, options: OfflineRenderOptions = {}) {
+    const { createCanvas = createOffscreenCanvas, loadImage = () => null, ...engineOptions } = options;
+    this.createCanvas = createCanvas;
+    this.loadImage = loadImage;
+    // 줄 나눔 측정도 그리는 canvas 와 같은 폰트로
+    this.engine = new CaptionEngine(data, { textMeasurer: this.measureText, ...engineOptions });
+  }
+
+  getEngine(): CaptionEngine {
+    return this.engine;
+  }
+
+  // 캡션이 표시되는 마지막 시간 (비디오 시간, 초)
+  getDuration(): number {
+    const events = this.engine.getSortedEvents();
+    if (events.length === 0) return 0;
+    const end = events.reduce((latest, event) => Math.max(latest, event.pre_reading.end), -Infinity);
+    return Math.max(0, end + this.engine.getSyncOffset());
+  }
+
+  getFrameState(time: number, width: number, height: number): CaptionFrameState {
+    return this.engine.getFrameState(time, { width, height });
+  }
+
+  // time 의 캡션 레이어를 투명 배경 canvas 에 그림 (반환된 canvas 는 다음 호출에서 다시 사용)
+  renderFrame(time: number, width: number, height: number): OfflineCanvas {
+    const context = this.getContext(width, height);
+    const frame = this.getFrameState(time, width, height);
+    context.setTransform(1, 0, 0, 1, 0, 0);
+    drawCaptionFrame(context, frame, { loadImage: this.loadImage });
+    return this.canvas as OfflineCanvas;
+  }
+
+  private measureText: TextMeasurer = (text, font) => {
+    const context = this.getContext(this.canvas?.width ?? 1, this.canvas?.height ?? 1);
+    context.save();
+    const widthScale = applyCanvasFont(context, font);
+    const width = context.measureText(text).width * widthScale;
+    context.restore();
+    return width;
+  };
+
+  private getContext(width: number, height: number): Canvas2DContext {
+    if (!this.canvas || !this.context) {
+      this.canvas = this.createCanvas(width, height);
+      this.context = this.canvas.getContext('2d');
+      if (!this.context) throw new Error('Canvas 2D context is not available');
+    } else if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    return this.context;
+  }
+}
+
+// 캡션 레이어를 fps 간격의 투명 PNG 시퀀스로 출력 (ffmpeg 로 영상과 합성)
+// 반환값은 출력한 프레임 수
+export const renderPngSequence = async (data: TimingSyncData, options: PngSequenceOptions): Promise<number> => {
+  const { fps, width, height, start = 0, end, encodePng = encodeCanvasPng, writeFrame, ...rendererOptions } = options;
+  if (!(fps > 0)) throw new Error(`Invalid fps "${fps}"`);
+
+  const renderer = new OfflineCaptionRenderer(data, rendererOptions);
+  const frameCount = Math.max(0, Math.ceil(((end ?? renderer.getDuration()) - start) * fps));
+  for (let index = 0; index < frameCount; index++) {
+    // 누적 오차 없이 프레임 번호로 시간 계산
+    const time = start + index / fps;
+    const png = await encodePng(renderer.renderFrame(time, width, height));
+    await writeFrame({ index, time, png });
+  }
+  return frameCount;
+};
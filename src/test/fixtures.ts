@@ -0,0 +1,62 @@
+import type { LayoutSettings, SyncEvent, TimingSyncData, Word } from '../types';
+
+// 테스트용 최소 TimingSyncData 생성기
+
+export const createWord = (word: string, start: number, end: number, overrides: Partial<Word> = {}): Word => ({
+  word,
+  word_index: 0,
+  start,
+  end,
+  pronunciation_start: start,
+  color_transition: { from_color: '&H00FFFFFF', to_color: '&H0000FFFF', duration_ms: 200 },
+  font_adjustments: { size_percent: 5, weight: 400, width: 100 },
+  ...overrides
+});
+
+// words: [단어, 시작, 끝] (pre_reading 은 첫 단어 0.5초 전 ~ 마지막 단어 끝)
+export const createEvent = (
+  eventId: string,
+  words: [string, number, number][],
+  overrides: Partial<SyncEvent> = {}
+): SyncEvent => {
+  const activeWords = words.map(([word, start, end], index) => createWord(word, start, end, { word_index: index }));
+  const sentence = words.map(([word]) => word).join(' ');
+  return {
+    event_id: eventId,
+    speaker_id: 'SPEAKER_00',
+    segment_id: `seg_${eventId}`,
+    sentence,
+    pre_reading: {
+      text: sentence,
+      start: Math.max(0, words[0][1] - 0.5),
+      end: words[words.length - 1][2],
+      style: 'Preread',
+      alpha: '&H19&'
+    },
+    active_speech_words: activeWords,
+    ...overrides
+  };
+};
+
+export const createTimingSyncData = (events: SyncEvent[], overrides: Partial<TimingSyncData> = {}): TimingSyncData => ({
+  version: '1.0',
+  created_at: '2025-01-01T00:00:00.000Z',
+  total_duration: Math.max(0, ...events.map(event => event.pre_reading.end)),
+  sync_precision_ms: 50,
+  sync_events: events,
+  global_timing_adjustments: { pre_reading_lead_ms: 500, color_transition_overlap_ms: 50, animation_buffer_ms: 100 },
+  ...overrides
+});
+
+// 박스 2개 (하단 / 그 위) 레이아웃
+export const createLayoutSettings = (): LayoutSettings => ({
+  work_area: { bottom_percent: 20, safety_margins: { left_percent: 0.05, right_percent: 0.05, bottom_percent: 0.02 } },
+  caption_boxes: [
+    { line_index: 0, bottom_position: 11, height: 10, style: 'Default' },
+    { line_index: 1, bottom_position: 0, height: 10, style: 'Default' }
+  ],
+  box_spacing: 1,
+  rendering: 'individual',
+  individual_box: true,
+  reference_resolution: { width: 1920, height: 1080 }
+});
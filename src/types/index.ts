@@ -5,8 +5,10 @@ export interface TimingSyncData {
   total_duration: number;
   sync_precision_ms: number;
   layout_settings?: LayoutSettings;
+  speakers?: SpeakerRegistry;
   sync_events: SyncEvent[];
   elevation_effects?: ElevationEffect[];
+  avoid_regions?: AvoidRegion[];
   global_timing_adjustments: {
     pre_reading_lead_ms: number;
     color_transition_overlap_ms: number;
@@ -27,8 +29,66 @@ export interface SyncEvent {
     alpha: string;
   };
   active_speech_words: Word[];
+  placement?: CaptionPlacementHint;  // 기본 bottom (work_area)
+  kind?: SyncEventKind;              // 기본 speech
+  music_cue?: MusicCue;              // kind 가 music_cue 일 때 표시 정보
+  sound?: SoundEvent;                // kind 가 sound 일 때 표시 정보
 }
 
+// 이벤트 종류: 발화 / 배경 음악 (♪ 표시) / 효과음 ([door slams]) - 발화 외에는 active_speech_words 를 비워 둠
+export type SyncEventKind = 'speech' | 'music_cue' | 'sound';
+
+export type SoundCategory = 'impact' | 'ambient' | 'music' | 'laughter';
+
+// 말이 아닌 소리 (효과음 / 웃음 등)
+export interface SoundEvent {
+  label: string;                 // 소리 설명 (예: "door slams" → "[door slams]")
+  category: SoundCategory;       // 아이콘 / 움직임
+  intensity: number;             // 0~1, 글자 크기 / 굵기
+  direction?: 'left' | 'right';  // 소리 방향 (박스 가로 위치, 없으면 가운데)
+}
+
+export interface MusicCue {
+  description?: string;  // 음악 설명 (예: "soft piano" → "♪ [soft piano] ♪")
+}
+
+// 화면 비율 좌표 사각형 (0~1, 좌상단 기준)
+export interface NormalizedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 이벤트 캡션 위치: 하단 work_area / 상단 (하단 박스 배치를 위아래로 뒤집음) / 명시적 사각형
+export type CaptionPlacementHint = 'bottom' | 'top' | NormalizedRect;
+
+// 캡션이 피해야 하는 영역 (번인 하단 자막, 화면 텍스트 등) - 시간 구간 동안 유효
+export interface AvoidRegion {
+  start: number;
+  end: number;
+  rect: NormalizedRect;
+  label?: string;
+}
+
+// 화자 레지스트리 (speaker_id → 표시 정보)
+export type SpeakerPlacement = 'left' | 'center' | 'right';
+
+export interface SpeakerInfo {
+  display_name?: string;
+  // 색상: CSS hex (#RRGGBB) 또는 ASS (&H00BBGGRR)
+  colors?: {
+    text?: string;         // 발화된 단어 색상 (단어의 color_transition.to_color 대신 사용)
+    pre_reading?: string;  // 발화 전 단어 색상
+    accent?: string;       // 이름표 / 아바타 테두리 색상 (기본: text)
+  };
+  avatar_url?: string;
+  icon?: string;           // 이모지 등 짧은 텍스트 아이콘
+  placement?: SpeakerPlacement;  // 캡션 박스 가로 위치 (기본 center)
+}
+
+export type SpeakerRegistry = Record<string, SpeakerInfo>;
+
 export interface CharacterTiming {
   character: string;
   char_index: number;
@@ -38,6 +98,43 @@ export interface CharacterTiming {
   relative_delay: number;
 }
 
+// 노래 음높이 곡선의 한 점 (singing 애니메이션의 세로 위치)
+export interface PitchPoint {
+  time: number;       // 초 (비디오 시간)
+  semitones: number;  // 화자 기준음 대비 반음 (+ = 높음)
+}
+
+// 내장 animation_type (registerAnimation 으로 플러그인 추가 가능)
+export type BuiltInAnimationType = "bouncing" | "elevation" | "whisper" | "loud" | "normal" | "singing" | "sound";
+export type AnimationType = BuiltInAnimationType | (string & {});
+
+export interface AnimationConfig {
+  scale_percent?: number;       // Overall scale (100 = normal)
+  duration_ms?: number;         // Animation duration
+  wave_enabled?: boolean;       // Enable wave effect
+  wave_height_range?: {         // Wave amplitude
+    min: number;
+    max: number;
+  };
+  position_y?: number;          // Y-axis movement (pixels)
+  opacity?: number;             // Opacity (0-1)
+  blur?: number;                // Blur amount (pixels)
+  font_scale?: number;          // Font size multiplier
+  trembling?: boolean;          // Trembling effect for elevation
+  character_delay_ms?: number;  // Delay between characters
+  character_timings?: CharacterTiming[];  // Character-level timing for wave effect
+  font_size_percent?: number;   // Font size percentage
+  brightness?: number;          // Brightness multiplier
+  font_weight?: number;         // Font weight override
+  text_shadow?: string;         // Text shadow CSS
+  return_to_baseline?: boolean; // Return to baseline after animation
+  semitone_height_percent?: number; // singing: 반음당 세로 이동 (화면 높이 %)
+  max_offset_percent?: number;  // singing: 최대 세로 이동 (화면 높이 %)
+  sound_category?: SoundCategory; // sound: 효과음 종류
+  intensity?: number;           // sound: 세기 (0~1)
+  [key: string]: unknown;       // 플러그인별 설정 (configSchema 로 검증)
+}
+
 export interface Word {
   word: string;
   word_index: number;
@@ -49,29 +146,10 @@ export interface Word {
     to_color: string;
     duration_ms: number;
   };
-  // New unified animation system
-  animation_type?: "bouncing" | "elevation" | "whisper" | "loud" | "normal";
-  animation_config?: {
-    scale_percent?: number;       // Overall scale (100 = normal)
-    duration_ms?: number;         // Animation duration
-    wave_enabled?: boolean;       // Enable wave effect
-    wave_height_range?: {         // Wave amplitude
-      min: number;
-      max: number;
-    };
-    position_y?: number;          // Y-axis movement (pixels)
-    opacity?: number;             // Opacity (0-1)
-    blur?: number;                // Blur amount (pixels)
-    font_scale?: number;          // Font size multiplier
-    trembling?: boolean;          // Trembling effect for elevation
-    character_delay_ms?: number;  // Delay between characters
-    character_timings?: CharacterTiming[];  // Character-level timing for wave effect
-    font_size_percent?: number;   // Font size percentage
-    brightness?: number;          // Brightness multiplier
-    font_weight?: number;         // Font weight override
-    text_shadow?: string;         // Text shadow CSS
-    return_to_baseline?: boolean; // Return to baseline after animation
-  };
+  // New unified animation system (animation_type 은 등록된 애니메이션 플러그인 이름)
+  animation_type?: AnimationType;
+  animation_config?: AnimationConfig;
+  pitch_contour?: PitchPoint[];  // singing: 시간 순 음높이 곡선
   pop_animation?: {
     start: number;
     scale_up_duration_ms: number;
@@ -117,13 +195,92 @@ export interface ElevationEffect {
   }[];
 }
 
-export interface CaptionWithIntentionProps {
+export interface CaptionWithIntentionProps extends CaptionLifecycleCallbacks, CaptionAccessibilityProps {
   videoSrc: string;
   timingSyncData: TimingSyncData;
   width?: number;
   height?: number;
   responsive?: boolean;
   syncOffset?: number; // Sync offset in seconds (positive delays, negative advances)
+  speakers?: SpeakerRegistry; // timingSyncData.speakers 를 화자별로 덮어씀
+  textMeasurer?: TextMeasurer; // 세그먼트 분할용 텍스트 폭 측정 (기본: canvas measureText)
+  boxAllocation?: CaptionBoxAllocation; // layout_settings.box_allocation 을 덮어씀
+  avoidRegions?: AvoidRegion[]; // timingSyncData.avoid_regions 에 추가되는 회피 영역
+  renderer?: CaptionRendererType; // 기본 'dom'
+  effectClock?: CaptionEffectClock; // 기본 'media'
+  showCaptionSettings?: boolean; // 내장 캡션 설정 메뉴 표시 (기본 false)
+  preferencesStorageKey?: string | null; // 시청자 설정 localStorage 키 (null 이면 저장하지 않음)
+  onPreferencesChange?: (preferences: CaptionPreferences) => void; // 시청자가 설정을 바꾼 뒤 적용되는 설정
+}
+
+export interface CaptionSettingsMenuProps {
+  preferences: CaptionPreferences;
+  onChange: (changes: Partial<CaptionPreferences>) => void;
+  onReset?: () => void;
+  defaultBackgroundOpacity?: number; // backgroundOpacity 가 없을 때 표시할 값 (caption_box_style.background_opacity)
+  className?: string;
+  style?: CaptionStyle;
+}
+
+// 캡션 렌더러: dom = 단어 / 글자별 요소 + GSAP, canvas = 단일 <canvas> 2D (저사양 TV / 셋톱박스용)
+export type CaptionRendererType = 'dom' | 'canvas';
+
+// 떨림 등 CSS 키프레임 효과의 시계: media = 미디어 시간으로 계산한 값을 프레임마다 적용 (재생 속도 / 일시정지 / 프레임 이동을 그대로 따름)
+// wallclock = CSS 애니메이션 (재생 속도에 맞춰 배속, 일시정지 중에는 멈춤, 위상은 미디어 시간과 무관)
+export type CaptionEffectClock = 'media' | 'wallclock';
+
+// CaptionWithIntention ref 로 노출되는 명령형 API
+export interface CaptionWithIntentionHandle {
+  play(): Promise<void>;
+  pause(): void;
+  seek(time: number): void;                        // 미디어 시간 (초)
+  seekToEvent(eventId: string): SyncEvent | null;  // 이벤트 pre_reading 시작으로 이동 (없으면 null)
+  nextEvent(): SyncEvent | null;
+  previousEvent(): SyncEvent | null;
+  setSyncOffset(offset: number): void;             // syncOffset prop 이 바뀌기 전까지 유지
+  getSyncOffset(): number;
+  getCurrentEvents(): CurrentEvents;
+  getVideoElement(): HTMLVideoElement | null;
+}
+
+// 캡션 동기화에 필요한 최소 미디어 인터페이스 (HTMLVideoElement 또는 HLS.js / Shaka / Video.js 어댑터)
+export type MediaClockEventType = 'play' | 'pause' | 'timeupdate' | 'ratechange';
+
+export interface MediaClock {
+  readonly currentTime: number;
+  readonly paused: boolean;
+  readonly playbackRate?: number; // 없으면 1 (ratechange 이벤트로 변경 알림)
+  addEventListener(type: MediaClockEventType, listener: () => void): void;
+  removeEventListener(type: MediaClockEventType, listener: () => void): void;
+  // 지원하면 표시된 프레임의 mediaTime 으로 동기화 (일시정지 중 프레임 이동 포함), 없으면 requestAnimationFrame 폴백
+  requestVideoFrameCallback?(callback: (now: DOMHighResTimeStamp, metadata: VideoFrameCallbackMetadata) => void): number;
+  cancelVideoFrameCallback?(handle: number): void;
+}
+
+// 미디어 직접 전달 또는 ref (ref는 마운트 이후에 채워져도 됨)
+export type MediaClockSource = MediaClock | { readonly current: MediaClock | null };
+
+// 미디어 시간 구독 저장소 (useSyncExternalStore / 명령형 애니메이션용, 시간이 바뀔 때만 알림)
+export interface MediaTimeStore {
+  getTime(): number;
+  setTime(time: number): void;
+  subscribe(listener: () => void): () => void;
+}
+
+export interface CaptionOverlayProps extends CaptionLifecycleCallbacks, CaptionAccessibilityProps {
+  media: MediaClockSource;
+  timingSyncData: TimingSyncData;
+  // 캡션 영역 고정 크기 (미지정 시 media가 요소면 요소 크기, 아니면 부모 크기를 따름)
+  width?: number;
+  height?: number;
+  syncOffset?: number; // Sync offset in seconds (positive delays, negative advances)
+  speakers?: SpeakerRegistry; // timingSyncData.speakers 를 화자별로 덮어씀
+  textMeasurer?: TextMeasurer; // 세그먼트 분할용 텍스트 폭 측정 (기본: canvas measureText)
+  boxAllocation?: CaptionBoxAllocation; // layout_settings.box_allocation 을 덮어씀
+  avoidRegions?: AvoidRegion[]; // timingSyncData.avoid_regions 에 추가되는 회피 영역
+  renderer?: CaptionRendererType; // 기본 'dom'
+  effectClock?: CaptionEffectClock; // 기본 'media'
+  className?: string;
 }
 
 export interface WordWithEvent extends Word {
@@ -155,6 +312,10 @@ export interface LayoutSettings {
   }>;
   box_spacing: number;
   rendering: string;
+  reference_resolution?: {   // 픽셀 단위 값의 기준 해상도 (ASS PlayResX/PlayResY)
+    width: number;
+    height: number;
+  };
   individual_box: boolean;
   caption_box_style?: {
     background_opacity?: number;
@@ -165,4 +326,243 @@ export interface LayoutSettings {
     };
     baseline_font_size_percent?: number;
   };
-}
\ No newline at end of file
+  box_allocation?: CaptionBoxAllocation;
+}
+
+// 캡션 박스 할당 정책
+// - stable-slot: 표시 중인 이벤트는 박스 유지, 세그먼트가 바뀔 때 더 아래 박스가 비어 있으면 이동 (기본)
+// - newest-at-bottom: 최신 이벤트가 항상 가장 아래 박스, 이전 이벤트는 위로 밀림
+// - per-speaker-slot: 화자별 고정 박스 (처음 등장한 순서대로 배정)
+export type CaptionBoxPolicy = 'stable-slot' | 'newest-at-bottom' | 'per-speaker-slot';
+
+// 빈 박스가 없을 때: overflow = 가장 위 박스 위로 박스 추가 (기본), queue = 박스가 빌 때까지 대기
+export type CaptionBoxOverflow = 'overflow' | 'queue';
+
+export interface CaptionBoxAllocation {
+  policy?: CaptionBoxPolicy;
+  overflow?: CaptionBoxOverflow;
+}
+// TimingSyncData 검증 결과 타입
+export type TimingSyncIssueCode =
+  | 'invalid_json'
+  | 'missing'
+  | 'invalid_type'
+  | 'invalid_value'
+  | 'out_of_order'
+  | 'unsupported_version';
+
+export interface TimingSyncIssue {
+  path: string;    // JSON 경로 (예: sync_events[3].active_speech_words[2].end)
+  code: TimingSyncIssueCode;
+  message: string; // 사람이 읽을 수 있는 설명 (예: "end < start")
+}
+
+export type TimingSyncParseResult =
+  | {
+      ok: true;
+      data: TimingSyncData;
+      migratedFrom?: string; // 마이그레이션이 적용된 경우 원본 버전
+    }
+  | {
+      ok: false;
+      errors: TimingSyncIssue[];
+    };
+
+// 텍스트 폭 측정 (세그먼트 분할용)
+export interface TextMeasureFont {
+  family: string;
+  sizePx: number;
+  weight: number;   // wght 축
+  width: number;    // wdth 축 (100 = normal)
+}
+
+export type TextMeasurer = (text: string, font: TextMeasureFont) => number;
+
+// 헤드리스 캡션 엔진 프레임 상태 타입
+export interface CaptionViewport {
+  width: number;
+  height: number;
+}
+
+// 직렬화 가능한 CSS 스타일 객체 (React style / element.style 에 그대로 적용 가능)
+export type CaptionStyle = Record<string, string | number | undefined>;
+
+export type WordPhase = 'pre_reading' | 'active' | 'spoken';
+
+export interface CharacterFrame {
+  char: string;
+  charIndex: number;
+  pronounced: boolean;   // false면 pre-reading 색상으로 정적 렌더링
+  color: string;         // 현재 시간 기준 글자 색상
+  offsetX: number;       // 글자 단위 애니메이션 가로 이동 (px)
+  offsetY: number;       // bouncing 웨이브 / 글자 단위 애니메이션 세로 이동 (px, 음수 = 위)
+  scale: number;
+}
+
+// 애니메이션 플러그인 결과 (단어 또는 글자 하나, 지정한 값만 기본 스타일 위에 적용)
+export interface AnimationEffect {
+  fontSize?: number;       // px
+  fontWeight?: number;
+  fontWidth?: number;      // wdth 축 (기본 font_adjustments.width)
+  opacity?: number;
+  blur?: number;           // px
+  brightness?: number;
+  textShadow?: string;
+  underline?: CaptionUnderline;
+  translateX?: number;     // px
+  translateY?: number;     // px, 음수 = 위
+  scale?: number;
+  // DOM 전용 CSS animation (지정하면 DOM 에서는 translate / scale 대신 이 애니메이션이 움직임을 담당)
+  cssAnimation?: string;
+  cssVariables?: Record<string, string | number>;
+}
+
+export interface AnimationConfigField {
+  type: 'number' | 'boolean' | 'string' | 'object' | 'array';
+  min?: number;
+  max?: number;
+  description?: string;
+}
+
+// animation_config 키 → 형식 (parseTimingSyncData 검증에 사용)
+export type AnimationConfigSchema = Record<string, AnimationConfigField>;
+
+// animation_type 플러그인
+// progress: 단어 (charTiming 이 있으면 글자) 발화 구간 기준 진행률 - 0 = 시작, 1 = 끝, 구간 밖이면 0 미만 / 1 초과
+export interface AnimationPlugin {
+  name: string;
+  configSchema: AnimationConfigSchema;
+  perCharacter?: boolean;                // true면 글자 단위 렌더링, 발화된 글자마다 charTiming 과 함께 한 번 더 호출
+  prepareWord?: (word: Word) => Word;    // 렌더링 전에 단어 데이터 변환 (예: bouncing 설정 병합)
+  keyframes?: string;                    // cssAnimation 이 참조하는 @keyframes (DOM 오버레이가 삽입)
+  animate: (
+    word: Word,
+    charTiming: CharacterTiming | undefined,
+    progress: number,
+    viewport: CaptionViewport
+  ) => AnimationEffect;
+  // 움직임 줄이기에서 animate 대신 사용하는 단어 단위 정적 효과 (굵기 / 폭 / 밑줄 / 크기)
+  // 없으면 animate 결과에서 이동 / CSS 애니메이션만 제거
+  reducedMotion?: (word: Word, progress: number, viewport: CaptionViewport) => AnimationEffect;
+}
+
+// 움직임 줄이기에서 움직임 대신 쓰는 밑줄 (elevation = solid, singing = wavy)
+export type CaptionUnderline = 'solid' | 'wavy';
+
+// 단어 스타일의 수치 표현 (canvas 등 CSS를 쓰지 않는 렌더러용, style 과 같은 값)
+export interface WordVisual {
+  fontSize: number;      // px
+  fontWeight: number;    // wght 축
+  fontWidth: number;     // wdth 축
+  color: string;         // 단어 단위 색상 (글자 단위 렌더링은 characters[].color)
+  opacity: number;
+  offsetX: number;       // px (trembling)
+  offsetY: number;       // px, 음수 = 위 (elevation_effects + position_y + trembling)
+  scale: number;         // 단어 하단 중앙 기준
+  blur: number;          // px
+  brightness: number;
+  textShadow?: string;   // CSS text-shadow
+  underline?: CaptionUnderline;
+}
+
+export interface WordFrame {
+  key: string;
+  word: Word;            // 렌더링에 사용되는 단어 데이터 (bouncing 설정이 병합된 형태)
+  phase: WordPhase;
+  style: CaptionStyle;
+  visual: WordVisual;
+  // 'characters'면 글자 단위 렌더링 (bouncing 웨이브 대상), 'word'면 단어 단위 렌더링
+  renderMode: 'characters' | 'word';
+  characters?: CharacterFrame[];
+}
+
+export interface CaptionSpeakerFrame {
+  speakerId: string;
+  displayName: string;   // display_name ?? speaker_id
+  color: string;         // 이름표 CSS 색상
+  avatarUrl?: string;
+  icon?: string;
+  placement: SpeakerPlacement;
+  showLabel: boolean;    // 레지스트리에 이름 / 아바타 / 아이콘이 있으면 이름표 표시
+  labelStyle: CaptionStyle;
+}
+
+// 캡션 박스 실제 배치 (회피 영역 때문에 bottom ↔ top 이 바뀔 수 있음)
+export type CaptionBoxAnchor = 'bottom' | 'top' | 'rect';
+
+// 캡션 박스 배치의 수치 표현 (px, canvas 렌더러용)
+export interface CaptionBoxGeometry {
+  bottom: number;        // 화면 아래 ~ 박스 아래
+  height: number;
+  areaLeft: number;      // 가로 배치 기준 영역 (work_area 또는 명시적 사각형)
+  areaWidth: number;
+  align: SpeakerPlacement;
+  fixedWidth: boolean;   // true면 영역 너비 그대로 (명시적 사각형), false면 내용 너비
+  paddingX: number;
+  paddingY: number;
+  fontSize: number;      // 박스 기본 글자 크기 (이름표 0.6em 기준)
+  backgroundColor: string;
+  borderRadius: number;
+}
+
+export interface CaptionBoxFrame {
+  key: string;           // 렌더링 key (배치 묶음 + 박스)
+  boxIndex: number;      // caption_boxes 인덱스 (overflow 박스는 caption_boxes.length 이상, 사각형 배치는 -1)
+  overflow: boolean;     // 빈 박스가 없어 가장 위 박스 위에 추가된 박스
+  anchor: CaptionBoxAnchor;
+  event: SyncEvent;      // 원본 이벤트 (전체 단어)
+  speaker: CaptionSpeakerFrame;
+  segmentIndex: number;
+  segmentCount: number;
+  style: CaptionStyle;
+  geometry: CaptionBoxGeometry;
+  sentenceStyle: CaptionStyle;
+  words: WordFrame[];
+}
+
+export interface CaptionFrameState {
+  time: number;          // 비디오 시간
+  adjustedTime: number;  // sync offset 적용 시간
+  viewport: CaptionViewport;
+  workAreaStyle: CaptionStyle;
+  boxes: CaptionBoxFrame[];
+  queuedEvents: SyncEvent[]; // overflow: 'queue' 에서 박스를 기다리는 이벤트
+}
+
+// CaptionEngine 이벤트 (전환마다 한 번, time = 비디오 시간)
+export interface CaptionEngineEventMap {
+  eventEnter: { event: SyncEvent; time: number };
+  eventExit: { event: SyncEvent; time: number };
+  wordStart: { word: Word; event: SyncEvent; time: number };
+  wordEnd: { word: Word; event: SyncEvent; time: number };
+  segmentChange: { event: SyncEvent; segmentIndex: number; previousSegmentIndex: number; words: Word[]; time: number };
+}
+
+export type CaptionEngineEventType = keyof CaptionEngineEventMap;
+
+// 캡션 생명주기 콜백 props
+export interface CaptionLifecycleCallbacks {
+  onEventEnter?: (payload: CaptionEngineEventMap['eventEnter']) => void;
+  onEventExit?: (payload: CaptionEngineEventMap['eventExit']) => void;
+  onWordStart?: (payload: CaptionEngineEventMap['wordStart']) => void;
+  onWordEnd?: (payload: CaptionEngineEventMap['wordEnd']) => void;
+  onSegmentChange?: (payload: CaptionEngineEventMap['segmentChange']) => void;
+}
+
+// 스크린 리더 / 점자 디스플레이 지원 props
+export interface CaptionAccessibilityProps {
+  announceCaptions?: boolean;                   // 표시 중인 문장을 aria-live 영역에 미러링 (기본 true)
+  speakerName?: (speakerId: string) => string;  // 안내 문장의 화자 이름 (기본: speaker_id)
+  preferences?: Partial<CaptionPreferences>;    // 시청자 캡션 설정 (기본: DEFAULT_CAPTION_PREFERENCES)
+  reducedMotion?: boolean;                      // 움직임 줄이기 (기본: prefers-reduced-motion 미디어 쿼리)
+}
+
+// 시청자 캡션 설정 (FCC 캡션 사용자 지정): 데이터의 크기 / 배경 / 움직임 위에 런타임으로 적용
+export interface CaptionPreferences {
+  textScale: number;           // 글자 크기 배율 (1 = 데이터 크기)
+  backgroundOpacity?: number;  // 박스 배경 불투명도 0~100 (미지정 시 caption_box_style.background_opacity)
+  backgroundColor?: string;    // 박스 배경 색상 #RRGGBB (미지정 시 검정)
+  highContrast: boolean;       // 불투명 검정 배경 + 대비 7:1 이상의 글자 색
+  effectIntensity: number;     // 움직임 세기 0~100 (bounce 범위 / elevation position_y / loud 확대)
+  reducedMotion?: boolean;     // 움직이는 효과를 굵기 / 폭 / 밑줄로 대체 (미지정 시 reducedMotion prop, 없으면 prefers-reduced-motion)
+}
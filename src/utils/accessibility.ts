@@ -0,0 +1,41 @@
+import type { SyncEvent, Word } from '../types';
+import { getMusicCueText, isMusicCue } from './musicCue';
+import { formatSoundAnnouncement, isSoundEvent } from './soundEvent';
+
+export type VoiceCharacteristic = 'whispering' | 'shouting' | 'singing';
+
+export interface CaptionAnnouncementOptions {
+  // speaker_id → 표시 이름 (기본: speaker_id 그대로)
+  speakerName?: (speakerId: string) => string;
+}
+
+// animation_type / special_effects 기반 단어의 음성 특성
+export const getWordVoiceCharacteristic = (word: Word): VoiceCharacteristic | null => {
+  if (word.animation_type === 'whisper' || word.special_effects?.whisper_voice) return 'whispering';
+  if (word.animation_type === 'loud' || word.special_effects?.loud_voice) return 'shouting';
+  if (word.animation_type === 'singing') return 'singing';
+  return null;
+};
+
+// 이벤트에 나타나는 음성 특성 (처음 나온 순서, 중복 제거)
+export const getVoiceCharacteristics = (event: SyncEvent): VoiceCharacteristic[] => {
+  const characteristics: VoiceCharacteristic[] = [];
+  for (const word of event.active_speech_words) {
+    const characteristic = getWordVoiceCharacteristic(word);
+    if (characteristic && !characteristics.includes(characteristic)) {
+      characteristics.push(characteristic);
+    }
+  }
+  return characteristics;
+};
+
+// 스크린 리더 / 점자 디스플레이용 문장 (예: "SPEAKER_01: (shouting) I'M SPEAKING VERY LOUDLY")
+// 음악 표시는 화자 없이 "♪ [soft piano] ♪", 효과음은 "[door slams] (left)"
+export const formatCaptionAnnouncement = (event: SyncEvent, options: CaptionAnnouncementOptions = {}): string => {
+  if (isMusicCue(event)) return getMusicCueText(event);
+  if (isSoundEvent(event)) return formatSoundAnnouncement(event);
+  const { speakerName = (id: string) => id } = options;
+  const sentence = event.sentence || event.active_speech_words.map(word => word.word).join(' ');
+  const characteristics = getVoiceCharacteristics(event).map(characteristic => `(${characteristic})`);
+  return `${speakerName(event.speaker_id)}: ${[...characteristics, sentence].join(' ')}`;
+};
@@ -0,0 +1,49 @@
+import type { ElevationEffect, SyncEvent } from '../types';
+
+export type ElevationMove = ElevationEffect['words'][number]['move_animation'];
+
+// 현재 시간에 활성화된 elevation effect (start <= time <= end)
+export const getActiveElevationEffects = (
+  effects: ElevationEffect[] | undefined,
+  time: number
+): ElevationEffect[] =>
+  (effects ?? []).filter(effect => time >= effect.start && time <= effect.end);
+
+// effect가 이 이벤트에 대한 것인지 (같은 화자 + 시간 구간 겹침)
+export const isElevationForEvent = (effect: ElevationEffect, event: SyncEvent): boolean =>
+  effect.speaker_id === event.speaker_id &&
+  effect.start <= event.pre_reading.end &&
+  event.pre_reading.start <= effect.end;
+
+// effect.words를 이벤트 단어에 순서대로 매칭 (word_index → move_animation)
+// 같은 단어가 여러 번 나오면 앞에서부터 하나씩 소비
+export const matchElevationWords = (effect: ElevationEffect, event: SyncEvent): Map<number, ElevationMove> => {
+  const matches = new Map<number, ElevationMove>();
+  let searchFrom = 0;
+
+  for (const effectWord of effect.words) {
+    const words = event.active_speech_words;
+    for (let i = searchFrom; i < words.length; i++) {
+      if (words[i].word === effectWord.word && !matches.has(words[i].word_index)) {
+        matches.set(words[i].word_index, effectWord.move_animation);
+        searchFrom = i + 1;
+        break;
+      }
+    }
+  }
+  return matches;
+};
+
+// 비디오 시간 기준 상승량 (기준 해상도 픽셀, 양수 = 위로)
+// from_y → to_y 이동을 effect 시작부터 duration_ms 동안 ease-out으로 보간하고 end까지 유지
+// 이전 프레임 상태에 의존하지 않으므로 seek / 역방향 스크러빙에도 동일한 결과
+export const getElevationOffset = (move: ElevationMove, effectStart: number, time: number): number => {
+  const elapsed = time - effectStart;
+  if (elapsed <= 0) return 0;
+
+  const duration = move.duration_ms / 1000;
+  const progress = duration > 0 ? Math.min(1, elapsed / duration) : 1;
+  const eased = 1 - Math.pow(1 - progress, 2); // power2.out
+  const currentY = move.from_y + (move.to_y - move.from_y) * eased;
+  return move.from_y - currentY;
+};
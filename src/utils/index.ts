@@ -11,4 +11,55 @@ export const assColorToCss = (assColor: string): string => {
   const r = bgr.slice(4, 6);
   
   return `#${r}${g}${b}`;
-};
\ No newline at end of file
+};
+
+// CSS 색상을 ASS 색상으로 변환 (assColorToCss의 역변환)
+export const cssColorToAss = (cssColor: string): string => {
+  // CSS 색상 형태: #RGB, #RRGGBB, #RRGGBBAA
+  let hex = cssColor.trim().replace('#', '');
+  if (hex.length === 3) hex = hex.split('').map(c => c + c).join('');
+
+  const r = hex.slice(0, 2);
+  const g = hex.slice(2, 4);
+  const b = hex.slice(4, 6);
+  // ASS 알파는 투명도 (00 = 불투명)
+  const alpha = hex.length === 8
+    ? (255 - parseInt(hex.slice(6, 8), 16)).toString(16).padStart(2, '0')
+    : '00';
+
+  return `&H${alpha}${b}${g}${r}`.toUpperCase();
+};
+
+export { parseTimingSyncData, formatTimingSyncIssue, CURRENT_TIMING_SYNC_VERSION } from './validation';
+export { createDefaultLayoutSettings } from './layout';
+export {
+  getActiveElevationEffects,
+  isElevationForEvent,
+  matchElevationWords,
+  getElevationOffset
+} from './elevation';
+export {
+  getWordVoiceCharacteristic,
+  getVoiceCharacteristics,
+  formatCaptionAnnouncement
+} from './accessibility';
+export type { VoiceCharacteristic, CaptionAnnouncementOptions } from './accessibility';
+export { MUSIC_NOTE, isMusicCue, formatMusicCueDescription, getMusicCueText, parseMusicCueText } from './musicCue';
+export {
+  SOUND_CATEGORY_ICONS,
+  SOUND_CATEGORIES,
+  isSpeechEvent,
+  isSoundEvent,
+  getSoundEventText,
+  formatSoundAnnouncement
+} from './soundEvent';
+export {
+  DEFAULT_CAPTION_PREFERENCES,
+  CAPTION_PREFERENCES_STORAGE_KEY,
+  TEXT_SCALE_RANGE,
+  resolveCaptionPreferences,
+  isSameCaptionPreferences,
+  loadCaptionPreferences,
+  saveCaptionPreferences,
+  clearCaptionPreferences
+} from './preferences';
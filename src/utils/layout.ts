@@ -0,0 +1,33 @@
+import type { LayoutSettings } from '../types';
+
+// layout_settings가 없는 데이터(ASS/SRT 변환 결과 등)를 위한 기본 2박스 레이아웃
+// caption_boxes[1] = 하단, caption_boxes[0] = 상단 (박스 순서는 bottom_position 기준)
+export const createDefaultLayoutSettings = (
+  referenceResolution: { width: number; height: number } = { width: 1920, height: 1080 }
+): LayoutSettings => ({
+  work_area: {
+    bottom_percent: 20,
+    safety_margins: {
+      left_percent: 0.05,
+      right_percent: 0.05,
+      bottom_percent: 0.02
+    }
+  },
+  caption_boxes: [
+    { line_index: 0, bottom_position: 11, height: 10, style: 'Default' },
+    { line_index: 1, bottom_position: 0, height: 10, style: 'Default' }
+  ],
+  box_spacing: 1,
+  rendering: 'individual',
+  individual_box: true,
+  reference_resolution: { ...referenceResolution },
+  caption_box_style: {
+    background_opacity: 90,
+    border_radius: 0,
+    padding: {
+      vertical_percent: 2.5,
+      horizontal_percent: 3.5
+    },
+    baseline_font_size_percent: 5
+  }
+});
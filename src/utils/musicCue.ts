@@ -0,0 +1,23 @@
+import type { SyncEvent } from '../types';
+
+export const MUSIC_NOTE = '♪';
+
+export const isMusicCue = (event: SyncEvent): boolean => event.kind === 'music_cue';
+
+// "soft piano" / "[soft piano]" → "[soft piano]"
+export const formatMusicCueDescription = (description: string): string => {
+  const text = description.trim();
+  return /^\[.*\]$/.test(text) ? text : `[${text}]`;
+};
+
+// 화면 / 스크린 리더 / ASS 에 표시하는 음악 표시 텍스트 (설명이 없으면 ♪ 하나)
+export const getMusicCueText = (event: SyncEvent): string => {
+  const description = event.music_cue?.description?.trim();
+  return description ? `${MUSIC_NOTE} ${formatMusicCueDescription(description)} ${MUSIC_NOTE}` : MUSIC_NOTE;
+};
+
+// "♪ [soft piano] ♪" → "soft piano" (getMusicCueText 의 역변환)
+export const parseMusicCueText = (text: string): string | undefined => {
+  const description = text.split(MUSIC_NOTE).join(' ').trim().replace(/^\[(.*)\]$/, '$1').trim();
+  return description || undefined;
+};
@@ -0,0 +1,80 @@
+import type { CaptionPreferences } from '../types';
+
+export const DEFAULT_CAPTION_PREFERENCES: CaptionPreferences = {
+  textScale: 1,
+  highContrast: false,
+  effectIntensity: 100
+};
+
+export const CAPTION_PREFERENCES_STORAGE_KEY = 'caption-with-intention:preferences';
+
+export const TEXT_SCALE_RANGE = { min: 0.5, max: 3 } as const;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// 알려진 필드만 남김 (localStorage 의 오래된 / 잘못된 값 무시)
+const pickPreferences = (value: unknown): Partial<CaptionPreferences> => {
+  if (typeof value !== 'object' || value === null) return {};
+  const record = value as Record<string, unknown>;
+  const picked: Partial<CaptionPreferences> = {};
+  if (isFiniteNumber(record.textScale)) picked.textScale = record.textScale;
+  if (isFiniteNumber(record.backgroundOpacity)) picked.backgroundOpacity = record.backgroundOpacity;
+  if (typeof record.backgroundColor === 'string') picked.backgroundColor = record.backgroundColor;
+  if (typeof record.highContrast === 'boolean') picked.highContrast = record.highContrast;
+  if (isFiniteNumber(record.effectIntensity)) picked.effectIntensity = record.effectIntensity;
+  if (typeof record.reducedMotion === 'boolean') picked.reducedMotion = record.reducedMotion;
+  return picked;
+};
+
+// 기본값 위에 순서대로 병합 (뒤의 값이 우선) 후 범위 제한
+export const resolveCaptionPreferences = (...layers: (Partial<CaptionPreferences> | undefined)[]): CaptionPreferences => {
+  const merged = layers.reduce<CaptionPreferences>(
+    (result, layer) => ({ ...result, ...pickPreferences(layer) }),
+    DEFAULT_CAPTION_PREFERENCES
+  );
+  return {
+    ...merged,
+    textScale: clamp(merged.textScale, TEXT_SCALE_RANGE.min, TEXT_SCALE_RANGE.max),
+    effectIntensity: clamp(merged.effectIntensity, 0, 100),
+    ...(merged.backgroundOpacity !== undefined && { backgroundOpacity: clamp(merged.backgroundOpacity, 0, 100) })
+  };
+};
+
+export const isSameCaptionPreferences = (a: CaptionPreferences, b: CaptionPreferences): boolean =>
+  a.textScale === b.textScale &&
+  a.backgroundOpacity === b.backgroundOpacity &&
+  a.backgroundColor === b.backgroundColor &&
+  a.highContrast === b.highContrast &&
+  a.effectIntensity === b.effectIntensity &&
+  a.reducedMotion === b.reducedMotion;
+
+// localStorage 가 없거나 (SSR / 차단된 저장소) 값이 잘못되면 빈 설정
+export const loadCaptionPreferences = (storageKey = CAPTION_PREFERENCES_STORAGE_KEY): Partial<CaptionPreferences> => {
+  try {
+    const stored = globalThis.localStorage?.getItem(storageKey);
+    return stored ? pickPreferences(JSON.parse(stored)) : {};
+  } catch {
+    return {};
+  }
+};
+
+export const saveCaptionPreferences = (
+  preferences: Partial<CaptionPreferences>,
+  storageKey = CAPTION_PREFERENCES_STORAGE_KEY
+) => {
+  try {
+    globalThis.localStorage?.setItem(storageKey, JSON.stringify(pickPreferences(preferences)));
+  } catch {
+    // 저장 공간 부족 / 비공개 모드: 이번 세션에만 적용
+  }
+};
+
+export const clearCaptionPreferences = (storageKey = CAPTION_PREFERENCES_STORAGE_KEY) => {
+  try {
+    globalThis.localStorage?.removeItem(storageKey);
+  } catch {
+    // 무시
+  }
+};
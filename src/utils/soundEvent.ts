@@ -0,0 +1,33 @@
+import type { SoundCategory, SyncEvent } from '../types';
+import { formatMusicCueDescription } from './musicCue';
+
+// 효과음 종류별 아이콘
+export const SOUND_CATEGORY_ICONS: Record<SoundCategory, string> = {
+  impact: '💥',
+  ambient: '🔉',
+  music: '♪',
+  laughter: '😄'
+};
+
+export const SOUND_CATEGORIES = Object.keys(SOUND_CATEGORY_ICONS) as SoundCategory[];
+
+// 세기 0 → 기준 글자 크기의 80%, 1 → 140% (플레이어 / ASS 내보내기 공통)
+export const getSoundSizeRatio = (intensity: number): number => 0.8 + 0.6 * Math.max(0, Math.min(1, intensity));
+
+// ASS 가져오기용 역변환
+export const getSoundIntensityFromRatio = (ratio: number): number => Math.max(0, Math.min(1, (ratio - 0.8) / 0.6));
+
+// kind 가 없으면 발화 이벤트
+export const isSpeechEvent = (event: SyncEvent): boolean => !event.kind || event.kind === 'speech';
+
+export const isSoundEvent = (event: SyncEvent): boolean => event.kind === 'sound';
+
+// "[door slams]" (음악 표시와 같은 [ ] 표기, label 이 없으면 sentence)
+export const getSoundEventText = (event: SyncEvent): string =>
+  formatMusicCueDescription(event.sound?.label || event.sentence);
+
+// 스크린 리더용: "[door slams] (left)"
+export const formatSoundAnnouncement = (event: SyncEvent): string => {
+  const direction = event.sound?.direction;
+  return direction ? `${getSoundEventText(event)} (${direction})` : getSoundEventText(event);
+};
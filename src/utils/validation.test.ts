@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { parseTimingSyncData, formatTimingSyncIssue } from './validation';
+import { createEvent, createTimingSyncData } from '../test/fixtures';
+
+const validData = () => createTimingSyncData([
+  createEvent('sync_001', [['Hello', 1, 1.3], ['world', 1.3, 1.8]]),
+  createEvent('sync_002', [['Bye', 3, 3.5]])
+]);
+
+describe('parseTimingSyncData', () => {
+  it('accepts current data without migration', () => {
+    const result = parseTimingSyncData(validData());
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.migratedFrom).toBeUndefined();
+    expect(result.data.sync_events).toHaveLength(2);
+  });
+
+  it('parses JSON strings and reports invalid JSON', () => {
+    expect(parseTimingSyncData(JSON.stringify(validData())).ok).toBe(true);
+    const result = parseTimingSyncData('{ not json');
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors[0].code).toBe('invalid_json');
+  });
+
+  it('normalizes a numeric current version without reporting a migration', () => {
+    const result = parseTimingSyncData({ ...validData(), version: 1 });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.version).toBe('1.0');
+    expect(result.migratedFrom).toBeUndefined();
+  });
+
+  it('migrates unversioned legacy data and fills defaults', () => {
+    const legacy = validData() as unknown as Record<string, unknown>;
+    delete legacy.version;
+    delete legacy.created_at;
+    delete legacy.sync_precision_ms;
+    delete legacy.global_timing_adjustments;
+    const events = legacy.sync_events as Record<string, unknown>[];
+    delete events[0].segment_id;
+    delete events[0].sentence;
+    const words = events[0].active_speech_words as Record<string, unknown>[];
+    delete words[1].word_index;
+    delete words[1].pronunciation_start;
+    delete words[1].font_adjustments;
+
+    const result = parseTimingSyncData(legacy);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.migratedFrom).toBe('unversioned');
+    expect(result.data.version).toBe('1.0');
+    expect(result.data.sync_precision_ms).toBe(50);
+    expect(result.data.sync_events[0].segment_id).toBe('seg_001');
+    expect(result.data.sync_events[0].sentence).toBe('Hello world');
+    expect(result.data.sync_events[0].active_speech_words[1]).toMatchObject({
+      word_index: 1,
+      pronunciation_start: 1.3,
+      font_adjustments: { size_percent: 5, weight: 400, width: 100 }
+    });
+    // 입력 객체는 변경하지 않음
+    expect(legacy.version).toBeUndefined();
+    expect(words[1].word_index).toBeUndefined();
+  });
+
+  it('reports the original numeric version of migrated data', () => {
+    const result = parseTimingSyncData({ ...validData(), version: 0.9 });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.migratedFrom).toBe('0.9');
+    expect(result.data.version).toBe('1.0');
+  });
+
+  it('rejects unsupported versions', () => {
+    for (const version of ['2.0', 'beta']) {
+      const result = parseTimingSyncData({ ...validData(), version });
+      expect(result.ok).toBe(false);
+      if (result.ok) continue;
+      expect(result.errors).toEqual([expect.objectContaining({ path: 'version', code: 'unsupported_version' })]);
+    }
+  });
+
+  it('reports every issue with its JSON path', () => {
+    const data = validData() as unknown as Record<string, unknown>;
+    const events = data.sync_events as Record<string, unknown>[];
+    const words = events[0].active_speech_words as Record<string, unknown>[];
+    words[1].end = 1.0;
+    delete words[0].word;
+    delete events[1].event_id;
+
+    const result = parseTimingSyncData(data);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    const paths = result.errors.map(issue => issue.path);
+    expect(paths).toContain('sync_events[0].active_speech_words[0].word');
+    expect(paths).toContain('sync_events[0].active_speech_words[1].end');
+    expect(paths).toContain('sync_events[1].event_id');
+    const missing = result.errors.find(issue => issue.path === 'sync_events[1].event_id');
+    expect(missing?.code).toBe('missing');
+    expect(formatTimingSyncIssue(missing!)).toBe(`sync_events[1].event_id: ${missing!.message}`);
+  });
+
+  it('rejects non-object input', () => {
+    const result = parseTimingSyncData([]);
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors[0].code).toBe('invalid_type');
+  });
+});
@@ -0,0 +1,663 @@
+import type {
+  AnimationConfigSchema,
+  TimingSyncData,
+  TimingSyncIssue,
+  TimingSyncIssueCode,
+  TimingSyncParseResult
+} from '../types';
+import { animationRegistry } from '../engine/animationRegistry';
+import { SOUND_CATEGORIES } from './soundEvent';
+
+// 현재 플레이어가 이해하는 TimingSyncData 스키마 버전
+export const CURRENT_TIMING_SYNC_VERSION = '1.0';
+
+const SPEAKER_PLACEMENTS = ['left', 'center', 'right'];
+const CAPTION_PLACEMENTS = ['top', 'bottom'];
+const EVENT_KINDS = ['speech', 'music_cue', 'sound'];
+const SOUND_DIRECTIONS = ['left', 'right'];
+const BOX_POLICIES = ['stable-slot', 'newest-at-bottom', 'per-speaker-slot'];
+const BOX_OVERFLOW_MODES = ['overflow', 'queue'];
+
+const DEFAULT_GLOBAL_TIMING = {
+  pre_reading_lead_ms: 500,
+  color_transition_overlap_ms: 50,
+  animation_buffer_ms: 25
+};
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// 검증 중 발견된 문제를 경로와 함께 수집
+class IssueCollector {
+  readonly issues: TimingSyncIssue[] = [];
+
+  add(path: string, code: TimingSyncIssueCode, message: string) {
+    this.issues.push({ path, code, message });
+  }
+
+  field(path: string, key: string) {
+    return path ? `${path}.${key}` : key;
+  }
+
+  record(parent: JsonRecord, path: string, key: string, optional = false): JsonRecord | undefined {
+    const value = parent[key];
+    const fieldPath = this.field(path, key);
+    if (value === undefined) {
+      if (!optional) this.add(fieldPath, 'missing', 'required object is missing');
+      return undefined;
+    }
+    if (!isRecord(value)) {
+      this.add(fieldPath, 'invalid_type', 'expected object');
+      return undefined;
+    }
+    return value;
+  }
+
+  array(parent: JsonRecord, path: string, key: string, optional = false): unknown[] | undefined {
+    const value = parent[key];
+    const fieldPath = this.field(path, key);
+    if (value === undefined) {
+      if (!optional) this.add(fieldPath, 'missing', 'required array is missing');
+      return undefined;
+    }
+    if (!Array.isArray(value)) {
+      this.add(fieldPath, 'invalid_type', 'expected array');
+      return undefined;
+    }
+    return value;
+  }
+
+  string(parent: JsonRecord, path: string, key: string, optional = false): string | undefined {
+    const value = parent[key];
+    const fieldPath = this.field(path, key);
+    if (value === undefined) {
+      if (!optional) this.add(fieldPath, 'missing', 'required string is missing');
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      this.add(fieldPath, 'invalid_type', 'expected string');
+      return undefined;
+    }
+    return value;
+  }
+
+  number(
+    parent: JsonRecord,
+    path: string,
+    key: string,
+    options: { optional?: boolean; min?: number; max?: number; integer?: boolean } = {}
+  ): number | undefined {
+    const value = parent[key];
+    const fieldPath = this.field(path, key);
+    if (value === undefined) {
+      if (!options.optional) this.add(fieldPath, 'missing', 'required number is missing');
+      return undefined;
+    }
+    if (!isFiniteNumber(value)) {
+      this.add(fieldPath, 'invalid_type', 'expected finite number');
+      return undefined;
+    }
+    if (options.integer && !Number.isInteger(value)) {
+      this.add(fieldPath, 'invalid_value', 'expected integer');
+    }
+    if (options.min !== undefined && value < options.min) {
+      this.add(fieldPath, 'invalid_value', `must be >= ${options.min}`);
+    }
+    if (options.max !== undefined && value > options.max) {
+      this.add(fieldPath, 'invalid_value', `must be <= ${options.max}`);
+    }
+    return value;
+  }
+
+  boolean(parent: JsonRecord, path: string, key: string, optional = false): boolean | undefined {
+    const value = parent[key];
+    const fieldPath = this.field(path, key);
+    if (value === undefined) {
+      if (!optional) this.add(fieldPath, 'missing', 'required boolean is missing');
+      return undefined;
+    }
+    if (typeof value !== 'boolean') {
+      this.add(fieldPath, 'invalid_type', 'expected boolean');
+      return undefined;
+    }
+    return value;
+  }
+
+  // start/end 쌍의 순서 검사 (end < start 이면 end 경로에 기록)
+  range(path: string, start: number | undefined, end: number | undefined, startKey = 'start', endKey = 'end') {
+    if (start !== undefined && end !== undefined && end < start) {
+      this.add(this.field(path, endKey), 'out_of_order', `${endKey} < ${startKey}`);
+    }
+  }
+}
+
+// 아래에서 세부 구조까지 검사하는 animation_config 키 (플러그인 스키마로는 검사하지 않음)
+const STRUCTURED_CONFIG_KEYS = ['wave_height_range', 'character_timings'];
+
+// 등록된 애니메이션 플러그인의 configSchema 로 animation_config 검사
+const validateAnimationConfigSchema = (c: IssueCollector, config: JsonRecord, path: string, schema: AnimationConfigSchema) => {
+  Object.entries(schema).forEach(([key, field]) => {
+    if (STRUCTURED_CONFIG_KEYS.includes(key)) return;
+    switch (field.type) {
+      case 'number':
+        c.number(config, path, key, { optional: true, min: field.min, max: field.max });
+        break;
+      case 'boolean':
+        c.boolean(config, path, key, true);
+        break;
+      case 'string':
+        c.string(config, path, key, true);
+        break;
+      case 'object':
+        c.record(config, path, key, true);
+        break;
+      case 'array':
+        c.array(config, path, key, true);
+        break;
+    }
+  });
+};
+
+const validateCharacterTimings = (c: IssueCollector, parent: JsonRecord, path: string) => {
+  const timings = c.array(parent, path, 'character_timings', true);
+  const timingsPath = c.field(path, 'character_timings');
+  timings?.forEach((timing, i) => {
+    const timingPath = `${timingsPath}[${i}]`;
+    if (!isRecord(timing)) {
+      c.add(timingPath, 'invalid_type', 'expected object');
+      return;
+    }
+    c.string(timing, timingPath, 'character');
+    c.number(timing, timingPath, 'char_index', { min: 0, integer: true });
+    const start = c.number(timing, timingPath, 'start_time', { min: 0 });
+    const end = c.number(timing, timingPath, 'end_time', { min: 0 });
+    c.range(timingPath, start, end, 'start_time', 'end_time');
+    c.number(timing, timingPath, 'peak_time', { optional: true, min: 0 });
+    c.number(timing, timingPath, 'relative_delay', { min: 0 });
+  });
+};
+
+const validateWord = (c: IssueCollector, word: unknown, path: string) => {
+  if (!isRecord(word)) {
+    c.add(path, 'invalid_type', 'expected object');
+    return;
+  }
+
+  c.string(word, path, 'word');
+  c.number(word, path, 'word_index', { min: 0, integer: true });
+  const start = c.number(word, path, 'start', { min: 0 });
+  const end = c.number(word, path, 'end', { min: 0 });
+  c.range(path, start, end);
+  c.number(word, path, 'pronunciation_start', { min: 0 });
+
+  const colorTransition = c.record(word, path, 'color_transition');
+  if (colorTransition) {
+    const colorPath = c.field(path, 'color_transition');
+    c.string(colorTransition, colorPath, 'from_color');
+    c.string(colorTransition, colorPath, 'to_color');
+    c.number(colorTransition, colorPath, 'duration_ms', { min: 0 });
+  }
+
+  const fontAdjustments = c.record(word, path, 'font_adjustments');
+  if (fontAdjustments) {
+    const fontPath = c.field(path, 'font_adjustments');
+    c.number(fontAdjustments, fontPath, 'size_percent', { min: 0 });
+    c.number(fontAdjustments, fontPath, 'weight', { min: 1, max: 1000 });
+    c.number(fontAdjustments, fontPath, 'width', { min: 0 });
+  }
+
+  const animationType = c.string(word, path, 'animation_type', true);
+  if (animationType !== undefined && !animationRegistry.has(animationType)) {
+    c.add(c.field(path, 'animation_type'), 'invalid_value', `unknown animation_type "${animationType}"`);
+  }
+
+  const config = c.record(word, path, 'animation_config', true);
+  if (config) {
+    const configPath = c.field(path, 'animation_config');
+    // 공통 키는 플러그인 스키마에 없을 때만 기본 형식으로 검사
+    const schema = (animationType !== undefined && animationRegistry.get(animationType)?.configSchema) || {};
+    const checkNumber = (key: string, options: { min?: number; max?: number } = {}) => {
+      if (!(key in schema)) c.number(config, configPath, key, { optional: true, ...options });
+    };
+    for (const key of [
+      'scale_percent', 'duration_ms', 'position_y', 'blur', 'font_scale',
+      'character_delay_ms', 'font_size_percent', 'brightness', 'font_weight'
+    ]) {
+      checkNumber(key);
+    }
+    checkNumber('opacity', { min: 0, max: 1 });
+    for (const key of ['wave_enabled', 'trembling', 'return_to_baseline']) {
+      if (!(key in schema)) c.boolean(config, configPath, key, true);
+    }
+    if (!('text_shadow' in schema)) c.string(config, configPath, 'text_shadow', true);
+    validateAnimationConfigSchema(c, config, configPath, schema);
+    const waveRange = c.record(config, configPath, 'wave_height_range', true);
+    if (waveRange) {
+      const rangePath = c.field(configPath, 'wave_height_range');
+      const min = c.number(waveRange, rangePath, 'min');
+      const max = c.number(waveRange, rangePath, 'max');
+      c.range(rangePath, min, max, 'min', 'max');
+    }
+    validateCharacterTimings(c, config, configPath);
+  }
+
+  const pop = c.record(word, path, 'pop_animation', true);
+  if (pop) {
+    const popPath = c.field(path, 'pop_animation');
+    c.number(pop, popPath, 'start', { min: 0 });
+    c.number(pop, popPath, 'scale_up_duration_ms', { min: 0 });
+    c.number(pop, popPath, 'scale_down_duration_ms', { min: 0 });
+    c.number(pop, popPath, 'max_scale_percent', { min: 0 });
+  }
+
+  const bouncing = c.record(word, path, 'bouncing_animation', true);
+  if (bouncing) {
+    const bouncingPath = c.field(path, 'bouncing_animation');
+    c.boolean(bouncing, bouncingPath, 'enabled');
+    c.number(bouncing, bouncingPath, 'scale_increase_percent', { optional: true });
+    const min = c.number(bouncing, bouncingPath, 'min_height_percent', { min: 0 });
+    const max = c.number(bouncing, bouncingPath, 'max_height_percent', { min: 0 });
+    c.range(bouncingPath, min, max, 'min_height_percent', 'max_height_percent');
+    c.number(bouncing, bouncingPath, 'character_delay_ms', { min: 0 });
+    c.string(bouncing, bouncingPath, 'wave_pattern');
+    c.number(bouncing, bouncingPath, 'wave_cycles', { optional: true, min: 0 });
+    validateCharacterTimings(c, bouncing, bouncingPath);
+  }
+
+  // singing 음높이 곡선 (시간 순)
+  const pitchContour = c.array(word, path, 'pitch_contour', true);
+  const contourPath = c.field(path, 'pitch_contour');
+  let previousPitchTime: number | undefined;
+  pitchContour?.forEach((point, i) => {
+    const pointPath = `${contourPath}[${i}]`;
+    if (!isRecord(point)) {
+      c.add(pointPath, 'invalid_type', 'expected object');
+      return;
+    }
+    const time = c.number(point, pointPath, 'time', { min: 0 });
+    c.number(point, pointPath, 'semitones');
+    if (time !== undefined && previousPitchTime !== undefined && time < previousPitchTime) {
+      c.add(c.field(pointPath, 'time'), 'out_of_order', 'pitch_contour times must be ascending');
+    }
+    previousPitchTime = time ?? previousPitchTime;
+  });
+
+  const specialEffects = c.record(word, path, 'special_effects', true);
+  if (specialEffects) {
+    const effectsPath = c.field(path, 'special_effects');
+    c.boolean(specialEffects, effectsPath, 'loud_voice', true);
+    c.boolean(specialEffects, effectsPath, 'whisper_voice', true);
+    c.number(specialEffects, effectsPath, 'base_scale', { optional: true, min: 0 });
+  }
+};
+
+// 화면 비율 사각형 (0~1)
+const validateNormalizedRect = (c: IssueCollector, rect: JsonRecord, path: string) => {
+  const x = c.number(rect, path, 'x', { min: 0, max: 1 });
+  const y = c.number(rect, path, 'y', { min: 0, max: 1 });
+  const width = c.number(rect, path, 'width', { min: 0, max: 1 });
+  const height = c.number(rect, path, 'height', { min: 0, max: 1 });
+  if (x !== undefined && width !== undefined && x + width > 1) {
+    c.add(c.field(path, 'width'), 'invalid_value', 'x + width must be <= 1');
+  }
+  if (y !== undefined && height !== undefined && y + height > 1) {
+    c.add(c.field(path, 'height'), 'invalid_value', 'y + height must be <= 1');
+  }
+};
+
+const validateSyncEvent = (c: IssueCollector, event: unknown, path: string) => {
+  if (!isRecord(event)) {
+    c.add(path, 'invalid_type', 'expected object');
+    return;
+  }
+
+  c.string(event, path, 'event_id');
+  c.string(event, path, 'speaker_id');
+  c.string(event, path, 'segment_id');
+  c.string(event, path, 'sentence');
+
+  const preReading = c.record(event, path, 'pre_reading');
+  if (preReading) {
+    const preReadingPath = c.field(path, 'pre_reading');
+    c.string(preReading, preReadingPath, 'text');
+    const start = c.number(preReading, preReadingPath, 'start', { min: 0 });
+    const end = c.number(preReading, preReadingPath, 'end', { min: 0 });
+    c.range(preReadingPath, start, end);
+    c.string(preReading, preReadingPath, 'style');
+    c.string(preReading, preReadingPath, 'alpha');
+  }
+
+  const words = c.array(event, path, 'active_speech_words');
+  const wordsPath = c.field(path, 'active_speech_words');
+  words?.forEach((word, i) => validateWord(c, word, `${wordsPath}[${i}]`));
+
+  // placement: 'top' | 'bottom' | 화면 비율 사각형
+  const placement = event.placement;
+  const placementPath = c.field(path, 'placement');
+  if (typeof placement === 'string') {
+    if (!CAPTION_PLACEMENTS.includes(placement)) {
+      c.add(placementPath, 'invalid_value', `unknown placement "${placement}"`);
+    }
+  } else if (isRecord(placement)) {
+    validateNormalizedRect(c, placement, placementPath);
+  } else if (placement !== undefined) {
+    c.add(placementPath, 'invalid_type', 'expected "top", "bottom" or rect object');
+  }
+
+  const kind = c.string(event, path, 'kind', true);
+  if (kind !== undefined && !EVENT_KINDS.includes(kind)) {
+    c.add(c.field(path, 'kind'), 'invalid_value', `unknown kind "${kind}"`);
+  }
+  const musicCue = c.record(event, path, 'music_cue', true);
+  if (musicCue) c.string(musicCue, c.field(path, 'music_cue'), 'description', true);
+
+  // kind: 'sound' 이면 sound 필수
+  const sound = c.record(event, path, 'sound', kind !== 'sound');
+  if (sound) validateSoundEvent(c, sound, c.field(path, 'sound'));
+};
+
+const validateSoundEvent = (c: IssueCollector, sound: JsonRecord, path: string) => {
+  c.string(sound, path, 'label');
+  const category = c.string(sound, path, 'category');
+  if (category !== undefined && !(SOUND_CATEGORIES as string[]).includes(category)) {
+    c.add(c.field(path, 'category'), 'invalid_value', `unknown sound category "${category}"`);
+  }
+  c.number(sound, path, 'intensity', { min: 0, max: 1 });
+  const direction = c.string(sound, path, 'direction', true);
+  if (direction !== undefined && !SOUND_DIRECTIONS.includes(direction)) {
+    c.add(c.field(path, 'direction'), 'invalid_value', `unknown direction "${direction}"`);
+  }
+};
+
+const validateAvoidRegion = (c: IssueCollector, region: unknown, path: string) => {
+  if (!isRecord(region)) {
+    c.add(path, 'invalid_type', 'expected object');
+    return;
+  }
+  const start = c.number(region, path, 'start', { min: 0 });
+  const end = c.number(region, path, 'end', { min: 0 });
+  c.range(path, start, end);
+  const rect = c.record(region, path, 'rect');
+  if (rect) validateNormalizedRect(c, rect, c.field(path, 'rect'));
+  c.string(region, path, 'label', true);
+};
+
+const validateElevationEffect = (c: IssueCollector, effect: unknown, path: string) => {
+  if (!isRecord(effect)) {
+    c.add(path, 'invalid_type', 'expected object');
+    return;
+  }
+
+  c.string(effect, path, 'effect_id');
+  c.string(effect, path, 'sentence');
+  const start = c.number(effect, path, 'start', { min: 0 });
+  const end = c.number(effect, path, 'end', { min: 0 });
+  c.range(path, start, end);
+  c.string(effect, path, 'speaker_id');
+  c.number(effect, path, 'elevation_percent');
+
+  const words = c.array(effect, path, 'words');
+  const wordsPath = c.field(path, 'words');
+  words?.forEach((word, i) => {
+    const wordPath = `${wordsPath}[${i}]`;
+    if (!isRecord(word)) {
+      c.add(wordPath, 'invalid_type', 'expected object');
+      return;
+    }
+    c.string(word, wordPath, 'word');
+    const move = c.record(word, wordPath, 'move_animation');
+    if (move) {
+      const movePath = c.field(wordPath, 'move_animation');
+      c.number(move, movePath, 'from_y');
+      c.number(move, movePath, 'to_y');
+      c.number(move, movePath, 'duration_ms', { min: 0 });
+    }
+  });
+};
+
+const validateLayoutSettings = (c: IssueCollector, layout: JsonRecord, path: string) => {
+  const workArea = c.record(layout, path, 'work_area');
+  if (workArea) {
+    const workAreaPath = c.field(path, 'work_area');
+    c.number(workArea, workAreaPath, 'bottom_percent', { min: 0, max: 100 });
+    const margins = c.record(workArea, workAreaPath, 'safety_margins');
+    if (margins) {
+      const marginsPath = c.field(workAreaPath, 'safety_margins');
+      // safety margin은 0~1 비율 값
+      c.number(margins, marginsPath, 'left_percent', { optional: true, min: 0, max: 1 });
+      c.number(margins, marginsPath, 'right_percent', { optional: true, min: 0, max: 1 });
+      c.number(margins, marginsPath, 'bottom_percent', { optional: true, min: 0, max: 1 });
+    }
+  }
+
+  const boxes = c.array(layout, path, 'caption_boxes');
+  const boxesPath = c.field(path, 'caption_boxes');
+  boxes?.forEach((box, i) => {
+    const boxPath = `${boxesPath}[${i}]`;
+    if (!isRecord(box)) {
+      c.add(boxPath, 'invalid_type', 'expected object');
+      return;
+    }
+    c.number(box, boxPath, 'line_index', { min: 0, integer: true });
+    c.number(box, boxPath, 'bottom_position', { min: 0, max: 100 });
+    c.number(box, boxPath, 'height', { min: 0, max: 100 });
+    c.string(box, boxPath, 'style');
+  });
+
+  c.number(layout, path, 'box_spacing', { min: 0 });
+  c.string(layout, path, 'rendering');
+  c.boolean(layout, path, 'individual_box');
+
+  const resolution = c.record(layout, path, 'reference_resolution', true);
+  if (resolution) {
+    const resolutionPath = c.field(path, 'reference_resolution');
+    c.number(resolution, resolutionPath, 'width', { min: 1 });
+    c.number(resolution, resolutionPath, 'height', { min: 1 });
+  }
+
+  const boxStyle = c.record(layout, path, 'caption_box_style', true);
+  if (boxStyle) {
+    const stylePath = c.field(path, 'caption_box_style');
+    c.number(boxStyle, stylePath, 'background_opacity', { optional: true, min: 0, max: 100 });
+    c.number(boxStyle, stylePath, 'border_radius', { optional: true, min: 0 });
+    c.number(boxStyle, stylePath, 'baseline_font_size_percent', { optional: true, min: 0 });
+    const padding = c.record(boxStyle, stylePath, 'padding', true);
+    if (padding) {
+      const paddingPath = c.field(stylePath, 'padding');
+      c.number(padding, paddingPath, 'vertical_percent', { optional: true, min: 0 });
+      c.number(padding, paddingPath, 'horizontal_percent', { optional: true, min: 0 });
+    }
+  }
+
+  const allocation = c.record(layout, path, 'box_allocation', true);
+  if (allocation) {
+    const allocationPath = c.field(path, 'box_allocation');
+    const policy = c.string(allocation, allocationPath, 'policy', true);
+    if (policy !== undefined && !BOX_POLICIES.includes(policy)) {
+      c.add(c.field(allocationPath, 'policy'), 'invalid_value', `unknown box allocation policy "${policy}"`);
+    }
+    const overflow = c.string(allocation, allocationPath, 'overflow', true);
+    if (overflow !== undefined && !BOX_OVERFLOW_MODES.includes(overflow)) {
+      c.add(c.field(allocationPath, 'overflow'), 'invalid_value', `unknown overflow mode "${overflow}"`);
+    }
+  }
+};
+
+const validateSpeakers = (c: IssueCollector, speakers: JsonRecord, path: string) => {
+  for (const speakerId of Object.keys(speakers)) {
+    const speaker = c.record(speakers, path, speakerId);
+    if (!speaker) continue;
+    const speakerPath = c.field(path, speakerId);
+    c.string(speaker, speakerPath, 'display_name', true);
+    c.string(speaker, speakerPath, 'avatar_url', true);
+    c.string(speaker, speakerPath, 'icon', true);
+
+    const colors = c.record(speaker, speakerPath, 'colors', true);
+    if (colors) {
+      const colorsPath = c.field(speakerPath, 'colors');
+      c.string(colors, colorsPath, 'text', true);
+      c.string(colors, colorsPath, 'pre_reading', true);
+      c.string(colors, colorsPath, 'accent', true);
+    }
+
+    const placement = c.string(speaker, speakerPath, 'placement', true);
+    if (placement !== undefined && !SPEAKER_PLACEMENTS.includes(placement)) {
+      c.add(c.field(speakerPath, 'placement'), 'invalid_value', `unknown placement "${placement}"`);
+    }
+  }
+};
+
+const validateTimingSyncData = (c: IssueCollector, data: JsonRecord) => {
+  c.string(data, '', 'version');
+  c.string(data, '', 'created_at');
+  c.number(data, '', 'total_duration', { min: 0 });
+  c.number(data, '', 'sync_precision_ms', { min: 0 });
+
+  const layout = c.record(data, '', 'layout_settings', true);
+  if (layout) validateLayoutSettings(c, layout, 'layout_settings');
+
+  const speakers = c.record(data, '', 'speakers', true);
+  if (speakers) validateSpeakers(c, speakers, 'speakers');
+
+  const events = c.array(data, '', 'sync_events');
+  events?.forEach((event, i) => validateSyncEvent(c, event, `sync_events[${i}]`));
+
+  const elevations = c.array(data, '', 'elevation_effects', true);
+  elevations?.forEach((effect, i) => validateElevationEffect(c, effect, `elevation_effects[${i}]`));
+
+  const avoidRegions = c.array(data, '', 'avoid_regions', true);
+  avoidRegions?.forEach((region, i) => validateAvoidRegion(c, region, `avoid_regions[${i}]`));
+
+  const adjustments = c.record(data, '', 'global_timing_adjustments');
+  if (adjustments) {
+    c.number(adjustments, 'global_timing_adjustments', 'pre_reading_lead_ms', { min: 0 });
+    c.number(adjustments, 'global_timing_adjustments', 'color_transition_overlap_ms', { min: 0 });
+    c.number(adjustments, 'global_timing_adjustments', 'animation_buffer_ms', { min: 0 });
+  }
+};
+
+// 0.x 파이프라인 출력 → 1.0
+// 0.x 는 version 필드가 없거나 숫자였고, 단어 단위 스타일/타이밍 필드가 선택적이었다
+const migrateFromLegacy = (data: JsonRecord) => {
+  if (typeof data.created_at !== 'string') data.created_at = new Date(0).toISOString();
+  if (!isFiniteNumber(data.sync_precision_ms)) data.sync_precision_ms = 50;
+  if (!isRecord(data.global_timing_adjustments)) {
+    data.global_timing_adjustments = { ...DEFAULT_GLOBAL_TIMING };
+  }
+
+  let lastEnd = 0;
+  if (Array.isArray(data.sync_events)) {
+    data.sync_events.forEach((event: unknown, eventIndex) => {
+      if (!isRecord(event)) return;
+      const eventNumber = String(eventIndex + 1).padStart(3, '0');
+      if (typeof event.segment_id !== 'string') event.segment_id = `seg_${eventNumber}`;
+
+      if (Array.isArray(event.active_speech_words)) {
+        event.active_speech_words.forEach((word: unknown, wordIndex) => {
+          if (!isRecord(word)) return;
+          if (!isFiniteNumber(word.word_index)) word.word_index = wordIndex;
+          if (!isFiniteNumber(word.pronunciation_start) && isFiniteNumber(word.start)) {
+            word.pronunciation_start = word.start;
+          }
+          if (!isRecord(word.color_transition)) {
+            word.color_transition = { from_color: '&H00FFFFFF', to_color: '&H00FFFFFF', duration_ms: 200 };
+          }
+          if (!isRecord(word.font_adjustments)) {
+            word.font_adjustments = { size_percent: 5, weight: 400, width: 100 };
+          }
+        });
+      }
+
+      if (typeof event.sentence !== 'string' && Array.isArray(event.active_speech_words)) {
+        event.sentence = event.active_speech_words
+          .map(word => (isRecord(word) && typeof word.word === 'string' ? word.word : ''))
+          .join(' ');
+      }
+      if (isRecord(event.pre_reading)) {
+        if (typeof event.pre_reading.text !== 'string') event.pre_reading.text = event.sentence;
+        if (typeof event.pre_reading.style !== 'string') event.pre_reading.style = 'Preread';
+        if (typeof event.pre_reading.alpha !== 'string') event.pre_reading.alpha = '&H19&';
+        if (isFiniteNumber(event.pre_reading.end)) lastEnd = Math.max(lastEnd, event.pre_reading.end);
+      }
+    });
+  }
+
+  if (!isFiniteNumber(data.total_duration)) data.total_duration = lastEnd;
+  data.version = '1.0';
+};
+
+// 버전별 마이그레이션 단계 (major 버전 기준)
+const MIGRATIONS: Record<number, (data: JsonRecord) => void> = {
+  0: migrateFromLegacy
+};
+
+const parseMajorVersion = (version: unknown): number | undefined => {
+  if (version === undefined) return 0;
+  const match = /^(\d+)(?:\.\d+)*$/.exec(String(version).trim());
+  return match ? Number(match[1]) : undefined;
+};
+
+// TimingSyncData를 런타임 검증하고 구 버전 스키마를 현재 형태로 마이그레이션
+// 입력 객체는 변경하지 않는다
+export const parseTimingSyncData = (json: unknown): TimingSyncParseResult => {
+  let raw = json;
+  if (typeof json === 'string') {
+    try {
+      raw = JSON.parse(json);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ok: false, errors: [{ path: '', code: 'invalid_json', message }] };
+    }
+  }
+
+  if (!isRecord(raw)) {
+    return { ok: false, errors: [{ path: '', code: 'invalid_type', message: 'expected object' }] };
+  }
+
+  const data = structuredClone(raw);
+  const originalVersion = data.version;
+  // 일부 파이프라인은 version을 숫자(1, 1.0)로 기록했다
+  if (isFiniteNumber(data.version)) data.version = Number.isInteger(data.version) ? `${data.version}.0` : String(data.version);
+  const currentMajor = parseMajorVersion(CURRENT_TIMING_SYNC_VERSION) as number;
+  let major = parseMajorVersion(originalVersion);
+
+  if (major === undefined || major > currentMajor) {
+    return {
+      ok: false,
+      errors: [{
+        path: 'version',
+        code: 'unsupported_version',
+        message: `unsupported version "${String(originalVersion)}" (current ${CURRENT_TIMING_SYNC_VERSION})`
+      }]
+    };
+  }
+
+  // 숫자 version 정규화는 마이그레이션이 아님 (migratedFrom 은 MIGRATIONS 단계가 실제로 적용된 경우만)
+  let migrated = false;
+  while (major < currentMajor) {
+    MIGRATIONS[major](data);
+    major = parseMajorVersion(data.version) as number;
+    migrated = true;
+  }
+
+  const collector = new IssueCollector();
+  validateTimingSyncData(collector, data);
+  if (collector.issues.length > 0) {
+    return { ok: false, errors: collector.issues };
+  }
+
+  return {
+    ok: true,
+    data: data as unknown as TimingSyncData,
+    ...(migrated && { migratedFrom: originalVersion === undefined ? 'unversioned' : String(originalVersion) })
+  };
+};
+
+// 검증 이슈를 "경로: 메시지" 형태로 포맷
+export const formatTimingSyncIssue = (issue: TimingSyncIssue): string =>
+  issue.path ? `${issue.path}: ${issue.message}` : issue.message;